@@ -2,6 +2,8 @@ import os from "node:os";
 import path from "node:path";
 import type { Hooks as PluginHooks, PluginInput, Plugin as PluginInstance } from "@opencode-ai/plugin";
 import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
+import { parseCacheOptions } from "./src/cache.ts";
+import { clearDiskCache, defaultCacheDir, readDiskCacheStats } from "./src/disk_cache.ts";
 
 type SdkConfig = Parameters<NonNullable<PluginHooks["config"]>>[0];
 
@@ -9,8 +11,13 @@ type SdkProvider = Parameters<NonNullable<NonNullable<PluginHooks["auth"]>["load
 
 type CliArgs = {
 	query?: string;
+	provider?: string;
+	model?: string;
 	config?: string;
 	auth?: string;
+	cacheDir?: string;
+	record?: string;
+	replay?: string;
 	raw?: boolean;
 };
 
@@ -47,10 +54,20 @@ function parseArgs(argv: string[]): CliArgs {
 		}
 		if (key === "query") {
 			result.query = next;
+		} else if (key === "provider") {
+			result.provider = next;
+		} else if (key === "model") {
+			result.model = next;
 		} else if (key === "config") {
 			result.config = next;
 		} else if (key === "auth") {
 			result.auth = next;
+		} else if (key === "cache-dir") {
+			result.cacheDir = next;
+		} else if (key === "record") {
+			result.record = next;
+		} else if (key === "replay") {
+			result.replay = next;
 		}
 		index += 2;
 	}
@@ -161,6 +178,26 @@ async function loadProviderAuth(filepath: string, providerID: string): Promise<P
 	return parseProviderAuth(entry, providerID);
 }
 
+// Points every websearch_cited provider block at the fixtures directory given on the command line.
+function applyFixtureMode(config: SdkConfig, args: CliArgs): void {
+	if (args.record && args.replay) {
+		throw new Error("Use either --record or --replay, not both");
+	}
+	const mode = args.record ? "record" : args.replay ? "replay" : undefined;
+	const dir = args.record ?? args.replay;
+	if (!mode || !dir) {
+		return;
+	}
+
+	for (const providerConfig of Object.values(config.provider ?? {})) {
+		const options = (providerConfig as { options?: unknown }).options;
+		if (!isRecord(options) || !isRecord(options.websearch_cited)) {
+			continue;
+		}
+		options.websearch_cited.fixtures = { mode, dir };
+	}
+}
+
 function createPluginInput(): PluginInput {
 	const directory = process.cwd();
 	const input: PluginInput = {
@@ -242,12 +279,71 @@ function findTool(hooks: Hooks[], name: string): Tool | undefined {
 	return found;
 }
 
+function formatTimestamp(value: number | undefined): string {
+	return value === undefined ? "-" : new Date(value).toISOString();
+}
+
+// `--cache-dir` wins; otherwise every disk cache directory configured in a websearch_cited block,
+// or the default one when none is configured (or the default config file does not exist).
+async function resolveCacheDirs(args: CliArgs): Promise<string[]> {
+	if (args.cacheDir) {
+		return [args.cacheDir];
+	}
+
+	const configPath = args.config || defaultConfigPath();
+	if (!args.config && !(await Bun.file(configPath).exists())) {
+		return [defaultCacheDir()];
+	}
+
+	const config = asSdkConfig(await loadConfig(configPath));
+	const dirs = new Set<string>();
+	for (const providerConfig of Object.values(config.provider ?? {})) {
+		const options = (providerConfig as { options?: unknown }).options;
+		if (!isRecord(options) || !isRecord(options.websearch_cited)) {
+			continue;
+		}
+		const disk = parseCacheOptions(options.websearch_cited.cache)?.disk;
+		if (disk) {
+			dirs.add(disk.dir);
+		}
+	}
+	return dirs.size > 0 ? [...dirs] : [defaultCacheDir()];
+}
+
+async function runCacheCommand(subcommand: string | undefined, args: CliArgs): Promise<void> {
+	if (subcommand !== "stats" && subcommand !== "clear") {
+		console.error('Usage: bun cli.ts cache <stats|clear> [--config "<path>"] [--cache-dir "<path>"]');
+		process.exit(1);
+	}
+
+	for (const dir of await resolveCacheDirs(args)) {
+		if (subcommand === "stats") {
+			const stats = await readDiskCacheStats(dir);
+			console.log(`dir: ${stats.dir}`);
+			console.log(`entries: ${stats.entries}`);
+			console.log(`bytes: ${stats.bytes}`);
+			console.log(`oldest: ${formatTimestamp(stats.oldest)}`);
+			console.log(`newest: ${formatTimestamp(stats.newest)}`);
+		} else {
+			const removed = await clearDiskCache(dir);
+			console.log(`Removed ${removed} cached result(s) from ${dir}`);
+		}
+	}
+}
+
 async function main() {
 	const argv = process.argv.slice(2);
 	const args = parseArgs(argv);
 
+	if (argv[0] === "cache") {
+		await runCacheCommand(argv[1], args);
+		return;
+	}
+
 	if (!args.query || args.query.trim() === "") {
-		console.error('Usage: bun cli.ts --query "<text>" [--config "<path>"] [--auth "<path>"] [--raw]');
+		console.error(
+			'Usage: bun cli.ts --query "<text>" [--provider "<id>"] [--model "<id>"] [--config "<path>"] [--auth "<path>"] [--record "<dir>" | --replay "<dir>"] [--raw]'
+		);
 		process.exit(1);
 	}
 
@@ -256,6 +352,7 @@ async function main() {
 
 	const configRoot = await loadConfig(configPath);
 	const config = asSdkConfig(configRoot);
+	applyFixtureMode(config, args);
 
 	const input = createPluginInput();
 	const hooks = await initHooks(input);
@@ -306,7 +403,7 @@ async function main() {
 	}
 
 	const context = createToolContext();
-	const raw = await tool.execute({ query: args.query }, context);
+	const raw = await tool.execute({ query: args.query, provider: args.provider, model: args.model }, context);
 
 	if (args.raw) {
 		console.log(raw);
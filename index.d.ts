@@ -4,6 +4,23 @@ declare const WebsearchCitedPlugin: Plugin;
 
 declare const WebsearchCitedGooglePlugin: Plugin;
 declare const WebsearchCitedOpenAIPlugin: Plugin;
+declare const WebsearchCitedAnthropicPlugin: Plugin;
+declare const WebsearchCitedPerplexityPlugin: Plugin;
+declare const WebsearchCitedXaiPlugin: Plugin;
+declare const WebsearchCitedBravePlugin: Plugin;
+declare const WebsearchCitedTavilyPlugin: Plugin;
+declare const WebsearchCitedExaPlugin: Plugin;
+declare const WebsearchCitedAzurePlugin: Plugin;
 
-export { WebsearchCitedGooglePlugin, WebsearchCitedOpenAIPlugin };
+export {
+  WebsearchCitedGooglePlugin,
+  WebsearchCitedOpenAIPlugin,
+  WebsearchCitedAnthropicPlugin,
+  WebsearchCitedPerplexityPlugin,
+  WebsearchCitedXaiPlugin,
+  WebsearchCitedBravePlugin,
+  WebsearchCitedTavilyPlugin,
+  WebsearchCitedExaPlugin,
+  WebsearchCitedAzurePlugin,
+};
 export default WebsearchCitedPlugin;
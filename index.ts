@@ -1,60 +1,173 @@
-import { type Plugin, tool } from "@opencode-ai/plugin";
+import { type AuthHook, type Plugin, tool } from "@opencode-ai/plugin";
 import type { Config } from "@opencode-ai/sdk";
 
-import { createGoogleWebsearchClient } from "./src/google.ts";
-import { createOpenAIWebsearchClient, type OpenAIWebsearchConfig } from "./src/openai.ts";
-import { createOpenRouterWebsearchClient } from "./src/openrouter.ts";
-import type { GetAuth } from "./src/types.ts";
-
-const GOOGLE_PROVIDER_ID = "google";
-const OPENAI_PROVIDER_ID = "openai";
-const OPENROUTER_PROVIDER_ID = "openrouter";
+import { anthropicWebsearchProvider } from "./src/anthropic.ts";
+import { azureWebsearchProvider } from "./src/azure.ts";
+import {
+	buildCacheKey,
+	createMemoryResultCache,
+	createTieredResultCache,
+	parseCacheOptions,
+	type ResultCache,
+	withCacheNotice,
+} from "./src/cache.ts";
+import { resolveDateRange, type WebsearchDateRange, withDateRangeNotice } from "./src/dates.ts";
+import { createDiskResultCache } from "./src/disk_cache.ts";
+import {
+	applyDomainConstraints,
+	parseDomainArgs,
+	resolveDomainConstraints,
+	type WebsearchDomainFilter,
+} from "./src/domains.ts";
+import { describeFailure, isFailoverError, WebsearchAuthError } from "./src/errors.ts";
+import { createFixtureFetch, parseFixtureOptions } from "./src/fixtures.ts";
+import { googleWebsearchProvider } from "./src/google.ts";
+import {
+	createEndpointFetch,
+	createNetworkFetch,
+	createRetryingFetch,
+	type EndpointOptions,
+	parseEndpointOptions,
+	parseNetworkOptions,
+	parseRetryOptions,
+} from "./src/http.ts";
+import { createRequestLimiter, parseLimiterOptions, type RequestLimiter } from "./src/limiter.ts";
+import { parseLocaleArgs, resolveLocale } from "./src/locale.ts";
+import { openaiWebsearchProvider } from "./src/openai.ts";
+import { openrouterWebsearchProvider } from "./src/openrouter.ts";
+import { isRecord } from "./src/options.ts";
+import { perplexityWebsearchProvider } from "./src/perplexity.ts";
+import { findWebsearchProvider, listWebsearchProviderIDs } from "./src/providers.ts";
+import { renderWebsearchResult } from "./src/render.ts";
+import { braveWebsearchProvider, exaWebsearchProvider, tavilyWebsearchProvider } from "./src/search_apis.ts";
+import type {
+	GetAuth,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchLocale,
+	WebsearchProvider,
+	WebsearchResult,
+} from "./src/types.ts";
+import { xaiWebsearchProvider } from "./src/xai.ts";
 
 const CITED_SEARCH_TOOL_DESCRIPTION =
-	"Performs a Gemini-style grounded web search: returns a concise digest with inline citations and a Sources list of URLs. NOTE: for LLM rate limits, DO NOT parallel this tool > 5";
+	"Performs a Gemini-style grounded web search: returns a concise digest with inline citations and a Sources list of URLs.";
 
 const WEBSEARCH_ARGS = {
 	query: tool.schema.string().describe("The natural language web search query."),
+	provider: tool.schema
+		.string()
+		.optional()
+		.describe(
+			"Optional provider to search with, e.g. 'google' or 'openai'. Must be configured for websearch_cited; defaults to the first configured provider."
+		),
+	model: tool.schema
+		.string()
+		.optional()
+		.describe("Optional model override for this call, e.g. a stronger model for a hard question."),
+	include_domains: tool.schema
+		.array(tool.schema.string())
+		.optional()
+		.describe(
+			"Optional allow-list of domains, e.g. ['docs.python.org']. Only these domains (and subdomains) are cited."
+		),
+	exclude_domains: tool.schema
+		.array(tool.schema.string())
+		.optional()
+		.describe("Optional block-list of domains that must never be cited."),
+	recency: tool.schema
+		.enum(["day", "week", "month", "year"])
+		.optional()
+		.describe("Optional freshness window, e.g. 'week' for release notes or advisories from the last 7 days."),
+	since: tool.schema
+		.string()
+		.optional()
+		.describe("Optional earliest publication date (YYYY-MM-DD). Cannot be combined with 'recency'."),
+	until: tool.schema
+		.string()
+		.optional()
+		.describe("Optional latest publication date (YYYY-MM-DD). Cannot be combined with 'recency'."),
+	country: tool.schema
+		.string()
+		.optional()
+		.describe("Optional two-letter country code of the user, e.g. 'DE', for locally relevant results."),
+	city: tool.schema.string().optional().describe("Optional city of the user, e.g. 'Berlin'."),
+	timezone: tool.schema.string().optional().describe("Optional IANA time zone of the user, e.g. 'Europe/Berlin'."),
+	language: tool.schema
+		.string()
+		.optional()
+		.describe("Optional language for the answer and results, as a BCP 47 tag such as 'de' or 'pt-BR'."),
 } as const;
 
+type WebsearchCallArgs = {
+	domains: WebsearchDomainFilter;
+	dateRange: WebsearchDateRange;
+	locale: WebsearchLocale;
+};
+
 const WEBSEARCH_ALLOWED_KEYS = new Set(Object.keys(WEBSEARCH_ARGS));
 
 const WEBSEARCH_ALLOWED_KEYS_DESCRIPTION = Array.from(WEBSEARCH_ALLOWED_KEYS)
 	.map((key) => `'${key}'`)
 	.join(", ");
 
-type SelectedProviderID = typeof GOOGLE_PROVIDER_ID | typeof OPENAI_PROVIDER_ID | typeof OPENROUTER_PROVIDER_ID;
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-	return Boolean(value && typeof value === "object" && !Array.isArray(value));
-}
-
 const authRegistry = new Map<string, GetAuth>();
 
 function registerGetAuth(providerID: string, getAuth: GetAuth): void {
 	authRegistry.set(providerID, getAuth);
 }
 
-function resolveGetAuth(providerID: string): GetAuth | undefined {
-	return authRegistry.get(providerID);
+function resolveGetAuth(provider: WebsearchProvider): GetAuth | undefined {
+	if (provider.authMethods.length === 0) {
+		return () => Promise.resolve(undefined);
+	}
+	return authRegistry.get(provider.id);
+}
+
+function createAuthHook(provider: WebsearchProvider): AuthHook {
+	return {
+		provider: provider.id,
+		loader(getAuth) {
+			registerGetAuth(provider.id, getAuth);
+			return Promise.resolve({});
+		},
+		methods: provider.authMethods,
+	};
+}
+
+function createWebsearchAuthPlugin(provider: WebsearchProvider): Plugin {
+	return () => {
+		return Promise.resolve({
+			auth: createAuthHook(provider),
+		});
+	};
 }
 
 type SelectedWebsearchConfig = {
-	providerID: SelectedProviderID;
+	provider: WebsearchProvider;
 	model: string;
+	options: unknown;
+	fetcher: WebsearchFetch;
+	limiter: RequestLimiter;
+	cache?: ResultCache;
+	providerConfig: unknown;
+	cited: Record<string, unknown>;
 };
 
 type WebsearchCitedSelection = {
-	selected?: SelectedWebsearchConfig;
+	selected: SelectedWebsearchConfig[];
 	error?: string;
 };
 
-function findFirstWebsearchCitedConfig(config: Config): WebsearchCitedSelection {
+// Collects every provider with a valid websearch_cited block, in config order; later entries are
+// failover candidates for earlier ones.
+function findWebsearchCitedConfigs(config: Config): WebsearchCitedSelection {
 	const providers = config.provider;
 	if (!providers || typeof providers !== "object") {
-		return {};
+		return { selected: [] };
 	}
 
+	const selected: SelectedWebsearchConfig[] = [];
 	let firstError: string | undefined;
 
 	for (const [providerID, providerConfig] of Object.entries(providers)) {
@@ -83,123 +196,202 @@ function findFirstWebsearchCitedConfig(config: Config): WebsearchCitedSelection
 			continue;
 		}
 
-		if (
-			providerID !== GOOGLE_PROVIDER_ID &&
-			providerID !== OPENAI_PROVIDER_ID &&
-			providerID !== OPENROUTER_PROVIDER_ID
-		) {
-			firstError ??= `Unsupported provider "${providerID}" for websearch_cited.`;
+		const provider = findWebsearchProvider(providerID);
+		if (!provider) {
+			firstError ??= `Unsupported provider "${providerID}" for websearch_cited. Supported providers: ${listWebsearchProviderIDs().join(", ")}.`;
 			continue;
 		}
 
-		return {
-			selected: {
-				providerID: providerID as SelectedProviderID,
-				model: candidate.trim(),
-			},
-		};
+		const model = candidate.trim();
+		const parsedOptions = provider.parseOptions(providerConfig, model);
+		const optionsError = provider.validateOptions?.(parsedOptions);
+		if (optionsError) {
+			firstError ??= optionsError;
+			continue;
+		}
+
+		selected.push({
+			provider,
+			model,
+			options: parsedOptions,
+			fetcher: createProviderFetch(provider, providerConfig, cited, model),
+			limiter: createRequestLimiter(parseLimiterOptions(cited)),
+			cache: createResultCache(cited.cache),
+			providerConfig,
+			cited,
+		});
+	}
+
+	if (selected.length === 0 && firstError) {
+		return { selected, error: firstError };
 	}
 
-	return firstError ? { error: firstError } : {};
+	return { selected };
 }
 
-function parseOpenAIOptions(providerConfig: unknown, model: string | undefined): OpenAIWebsearchConfig {
-	if (!isRecord(providerConfig)) {
-		return {};
-	}
+function createProviderFetch(
+	provider: WebsearchProvider,
+	providerConfig: unknown,
+	cited: Record<string, unknown>,
+	model: string
+): WebsearchFetch {
+	const endpoint = parseEndpointOptions(providerConfig, model);
+	return createRetryingFetch(
+		parseRetryOptions(cited.retry),
+		createEndpointFetch(provider.baseURL, endpoint, createBaseFetch(cited, endpoint))
+	);
+}
 
-	const providerRecord = providerConfig;
+// Re-reads per-model options for a model chosen at call time; the limiter and cache stay shared
+// with the configured model so per-provider limits still hold.
+function withModel(selected: SelectedWebsearchConfig, model: string): SelectedWebsearchConfig {
+	if (model === selected.model) {
+		return selected;
+	}
+	return {
+		...selected,
+		model,
+		options: selected.provider.parseOptions(selected.providerConfig, model),
+		fetcher: createProviderFetch(selected.provider, selected.providerConfig, selected.cited, model),
+	};
+}
 
-	const rawOptions = (providerRecord as { options?: unknown }).options;
-	const baseOptions = isRecord(rawOptions) ? rawOptions : undefined;
+// An explicit `provider` pins the call to that provider (no failover); a bare `model` overrides the
+// first configured provider and keeps the rest of the chain as failover.
+function selectCandidates(
+	selected: SelectedWebsearchConfig[],
+	providerID: string | undefined,
+	model: string | undefined
+): SelectedWebsearchConfig[] {
+	if (providerID === undefined) {
+		const [first, ...rest] = selected;
+		return first && model !== undefined ? [withModel(first, model), ...rest] : selected;
+	}
 
-	let modelOptions: Record<string, unknown> | undefined;
-	const rawModels = (providerRecord as { models?: unknown }).models;
-	if (model && isRecord(rawModels)) {
-		const modelsRecord: Record<string, unknown> = rawModels;
-		const entry = modelsRecord[model];
-		if (isRecord(entry)) {
-			const entryOptions = (entry as { options?: unknown }).options;
-			if (isRecord(entryOptions)) {
-				modelOptions = entryOptions;
-			}
-		}
+	const match = selected.find((candidate) => candidate.provider.id === providerID);
+	if (!match) {
+		const available = selected.map((candidate) => `${candidate.provider.id} (${candidate.model})`).join(", ");
+		const reason = findWebsearchProvider(providerID) ? "is not configured" : "is not supported";
+		throw new Error(
+			`Provider "${providerID}" ${reason} for websearch_cited. Available providers: ${available}. Add a websearch_cited block to the provider's options to enable it.`
+		);
 	}
 
-	const merged: Record<string, unknown> = {
-		...(baseOptions ?? {}),
-		...(modelOptions ?? {}),
-	};
+	return [model !== undefined ? withModel(match, model) : match];
+}
 
-	const result: OpenAIWebsearchConfig = {};
+// Fixtures sit below the endpoint layer, so they see the configured headers and must redact them.
+function createBaseFetch(cited: Record<string, unknown>, endpoint: EndpointOptions): WebsearchFetch {
+	const network = createNetworkFetch(parseNetworkOptions(cited));
+	const fixtures = parseFixtureOptions(cited.fixtures);
+	return fixtures
+		? createFixtureFetch({ ...fixtures, redactHeaders: Object.keys(endpoint.headers) }, network)
+		: network;
+}
 
-	const reasoningEffort = merged.reasoningEffort;
-	if (typeof reasoningEffort === "string" && reasoningEffort.trim() !== "") {
-		result.reasoningEffort = reasoningEffort.trim();
+function createResultCache(value: unknown): ResultCache | undefined {
+	const options = parseCacheOptions(value);
+	if (!options) {
+		return undefined;
 	}
 
-	const reasoningSummary = merged.reasoningSummary;
-	if (typeof reasoningSummary === "string" && reasoningSummary.trim() !== "") {
-		result.reasoningSummary = reasoningSummary.trim();
+	const memory = createMemoryResultCache(options);
+	if (!options.disk) {
+		return memory;
 	}
 
-	const textVerbosity = merged.textVerbosity;
-	if (typeof textVerbosity === "string" && textVerbosity.trim() !== "") {
-		result.textVerbosity = textVerbosity.trim();
+	return createTieredResultCache([memory, createDiskResultCache({ ...options.disk, ttlMs: options.ttlMs })]);
+}
+
+async function searchWithProvider(
+	selected: SelectedWebsearchConfig,
+	query: string,
+	callArgs: WebsearchCallArgs,
+	abortSignal: AbortSignal
+): Promise<WebsearchResult> {
+	const { provider, model, options, fetcher, limiter, cache } = selected;
+	const constraints: WebsearchConstraints = {
+		...resolveDomainConstraints(selected.providerConfig, model, callArgs.domains),
+		...callArgs.dateRange,
+	};
+	const locale = resolveLocale(selected.providerConfig, model, callArgs.locale);
+	if (Object.keys(locale).length > 0) {
+		constraints.locale = locale;
 	}
 
-	const store = merged.store;
-	if (typeof store === "boolean") {
-		result.store = store;
+	const cacheKey = buildCacheKey({ providerID: provider.id, model, query, options, constraints });
+	const cached = await cache?.get(cacheKey);
+	if (cached) {
+		return withCacheNotice(cached);
 	}
 
-	const include = merged.include;
-	if (Array.isArray(include)) {
-		const filtered = include.filter((value) => typeof value === "string" && value.trim() !== "");
-		if (filtered.length > 0) {
-			result.include = filtered;
-		}
+	const getAuth = resolveGetAuth(provider);
+	if (!getAuth) {
+		throw new WebsearchAuthError(
+			`Missing auth for provider "${provider.id}". Authenticate via \`opencode auth login\`.`
+		);
 	}
 
+	const client = provider.createClient(model, options, fetcher, (providerID) => authRegistry.get(providerID));
+	const response = await limiter.run(() => client.search(query, abortSignal, getAuth, constraints), abortSignal);
+	const result = withDateRangeNotice(applyDomainConstraints(response, constraints), callArgs.dateRange);
+	await cache?.set(cacheKey, result);
 	return result;
 }
 
+async function searchWithFailover(
+	candidates: SelectedWebsearchConfig[],
+	query: string,
+	callArgs: WebsearchCallArgs,
+	abortSignal: AbortSignal
+): Promise<WebsearchResult> {
+	const failures: { providerID: string; error: unknown }[] = [];
+
+	for (const candidate of candidates) {
+		try {
+			const result = await searchWithProvider(candidate, query, callArgs, abortSignal);
+			if (failures.length === 0) {
+				return result;
+			}
+			const skipped = failures.map(({ providerID, error }) => `${providerID} (${describeFailure(error)})`);
+			return {
+				...result,
+				notices: [
+					...(result.notices ?? []),
+					`Answered by ${candidate.provider.id} (${candidate.model}) after failover from ${skipped.join(", ")}.`,
+				],
+			};
+		} catch (error) {
+			if (abortSignal.aborted || !isFailoverError(error)) {
+				throw error;
+			}
+			failures.push({ providerID: candidate.provider.id, error });
+		}
+	}
+
+	const [onlyFailure] = failures;
+	if (failures.length === 1 && onlyFailure) {
+		throw onlyFailure.error;
+	}
+
+	const details = failures.map(({ providerID, error }) => {
+		const message = error instanceof Error ? error.message : String(error);
+		return `${providerID}: ${message}`;
+	});
+	throw new Error(`All websearch_cited providers failed. ${details.join(" | ")}`);
+}
+
 const WebsearchCitedPlugin: Plugin = () => {
-	let selectedProvider: SelectedProviderID | undefined;
-	let selectedModel: string | undefined;
-	let openaiConfig: OpenAIWebsearchConfig = {};
+	let selected: SelectedWebsearchConfig[] = [];
 	let configError: string | undefined;
 
 	return Promise.resolve({
-		auth: {
-			provider: OPENROUTER_PROVIDER_ID,
-			loader(getAuth) {
-				registerGetAuth(OPENROUTER_PROVIDER_ID, getAuth);
-				return Promise.resolve({});
-			},
-			methods: [
-				{
-					type: "api",
-					label: "OpenRouter API key",
-				},
-			],
-		},
+		auth: createAuthHook(openrouterWebsearchProvider),
 		config: (config) => {
-			const { selected, error } = findFirstWebsearchCitedConfig(config);
-
-			selectedProvider = undefined;
-			selectedModel = undefined;
-			openaiConfig = {};
-			configError = error;
-
-			if (selected) {
-				selectedProvider = selected.providerID;
-				selectedModel = selected.model;
-				if (selectedProvider === OPENAI_PROVIDER_ID) {
-					const openaiProvider = config.provider?.openai;
-					openaiConfig = parseOpenAIOptions(openaiProvider, selectedModel);
-				}
-			}
+			const selection = findWebsearchCitedConfigs(config);
+
+			selected = selection.selected;
+			configError = selection.error;
 
 			return Promise.resolve();
 		},
@@ -225,77 +417,44 @@ const WebsearchCitedPlugin: Plugin = () => {
 						throw new Error(configError);
 					}
 
-					if (!selectedProvider || !selectedModel) {
+					if (selected.length === 0) {
 						throw new Error("Missing web search model configuration.");
 					}
 
-					if (selectedProvider === OPENAI_PROVIDER_ID) {
-						const getAuth = resolveGetAuth(OPENAI_PROVIDER_ID);
-						if (!getAuth) {
-							throw new Error('Missing auth for provider "openai". Authenticate via `opencode auth login`.');
-						}
-
-						const client = createOpenAIWebsearchClient(selectedModel, openaiConfig);
-						return client.search(query, context.abort, getAuth);
+					const providerID = args.provider?.trim();
+					if (args.provider !== undefined && !providerID) {
+						throw new Error("The 'provider' parameter cannot be empty.");
 					}
 
-					if (selectedProvider === OPENROUTER_PROVIDER_ID) {
-						const getAuth = resolveGetAuth(OPENROUTER_PROVIDER_ID);
-						if (!getAuth) {
-							throw new Error('Missing auth for provider "openrouter". Authenticate via `opencode auth login`.');
-						}
-
-						const client = createOpenRouterWebsearchClient(selectedModel);
-						return client.search(query, context.abort, getAuth);
+					const model = args.model?.trim();
+					if (args.model !== undefined && !model) {
+						throw new Error("The 'model' parameter cannot be empty.");
 					}
 
-					const getAuth = resolveGetAuth(GOOGLE_PROVIDER_ID);
-					if (!getAuth) {
-						throw new Error('Missing auth for provider "google". Authenticate via `opencode auth login`.');
-					}
+					const callArgs: WebsearchCallArgs = {
+						domains: parseDomainArgs(args),
+						dateRange: resolveDateRange(args, new Date()),
+						locale: parseLocaleArgs(args),
+					};
 
-					const client = createGoogleWebsearchClient(selectedModel);
-					return client.search(query, context.abort, getAuth);
+					const candidates = selectCandidates(selected, providerID, model);
+					const result = await searchWithFailover(candidates, query, callArgs, context.abort);
+					return renderWebsearchResult(result);
 				},
 			}),
 		},
 	});
 };
 
-export const WebsearchCitedGooglePlugin: Plugin = () => {
-	return Promise.resolve({
-		auth: {
-			provider: GOOGLE_PROVIDER_ID,
-			loader(getAuth) {
-				registerGetAuth(GOOGLE_PROVIDER_ID, getAuth);
-				return Promise.resolve({});
-			},
-			methods: [
-				{
-					type: "api",
-					label: "Google API key",
-				},
-			],
-		},
-	});
-};
+export const WebsearchCitedGooglePlugin: Plugin = createWebsearchAuthPlugin(googleWebsearchProvider);
 
-export const WebsearchCitedOpenAIPlugin: Plugin = () => {
-	return Promise.resolve({
-		auth: {
-			provider: OPENAI_PROVIDER_ID,
-			loader(getAuth) {
-				registerGetAuth(OPENAI_PROVIDER_ID, getAuth);
-				return Promise.resolve({});
-			},
-			methods: [
-				{
-					type: "api",
-					label: "OpenAI API key",
-				},
-			],
-		},
-	});
-};
+export const WebsearchCitedOpenAIPlugin: Plugin = createWebsearchAuthPlugin(openaiWebsearchProvider);
+export const WebsearchCitedAnthropicPlugin: Plugin = createWebsearchAuthPlugin(anthropicWebsearchProvider);
+export const WebsearchCitedPerplexityPlugin: Plugin = createWebsearchAuthPlugin(perplexityWebsearchProvider);
+export const WebsearchCitedXaiPlugin: Plugin = createWebsearchAuthPlugin(xaiWebsearchProvider);
+export const WebsearchCitedBravePlugin: Plugin = createWebsearchAuthPlugin(braveWebsearchProvider);
+export const WebsearchCitedTavilyPlugin: Plugin = createWebsearchAuthPlugin(tavilyWebsearchProvider);
+export const WebsearchCitedExaPlugin: Plugin = createWebsearchAuthPlugin(exaWebsearchProvider);
+export const WebsearchCitedAzurePlugin: Plugin = createWebsearchAuthPlugin(azureWebsearchProvider);
 
 export default WebsearchCitedPlugin;
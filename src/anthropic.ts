@@ -0,0 +1,304 @@
+import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
+import { appendDateInstruction } from "./dates.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { type ApproximateLocation, appendLanguageInstruction, buildApproximateLocation } from "./locale.ts";
+import { buildWebSearchUserPrompt, WEB_SEARCH_INSTRUCTIONS } from "./openai.ts";
+import { resolveProviderOptions } from "./options.ts";
+import type {
+	GetAuth,
+	WebsearchCitation,
+	WebsearchClient,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchProvider,
+	WebsearchResult,
+	WebsearchSource,
+} from "./types.ts";
+
+type AnthropicWebSearchTool = {
+	type: "web_search_20250305";
+	name: "web_search";
+	max_uses?: number;
+	allowed_domains?: string[];
+	blocked_domains?: string[];
+	user_location?: ApproximateLocation;
+};
+
+type AnthropicMessagesRequest = {
+	model: string;
+	max_tokens: number;
+	system: string;
+	messages: { role: "user"; content: string }[];
+	tools: AnthropicWebSearchTool[];
+};
+
+type AnthropicTextCitation = {
+	type?: string;
+	url?: string;
+	title?: string;
+	cited_text?: string;
+};
+
+type AnthropicWebSearchResult = {
+	type?: string;
+	url?: string;
+	title?: string;
+	page_age?: string;
+};
+
+type AnthropicContentBlock = {
+	type?: string;
+	text?: string;
+	citations?: AnthropicTextCitation[] | null;
+	content?: AnthropicWebSearchResult[] | { type?: string; error_code?: string };
+};
+
+type AnthropicMessagesResponse = {
+	content?: AnthropicContentBlock[];
+	usage?: {
+		input_tokens?: number;
+		output_tokens?: number;
+	};
+};
+
+export type AnthropicWebsearchConfig = {
+	maxUses?: number;
+};
+
+const ANTHROPIC_API_BASE = "https://api.anthropic.com/v1";
+const ANTHROPIC_MESSAGES_ENDPOINT = `${ANTHROPIC_API_BASE}/messages`;
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+function buildAuthHeaders(auth: ProviderAuth): Record<string, string> {
+	if (auth.type === "api") {
+		const key = auth.key.trim();
+		if (!key) {
+			throw new WebsearchAuthError("Missing Anthropic API key");
+		}
+		return { "x-api-key": key };
+	}
+
+	// Claude Pro/Max OAuth tokens are only accepted alongside the Claude Code system prompt, and
+	// refreshing them here would rotate the refresh token OpenCode keeps, so only API keys are used.
+	if (auth.type === "oauth") {
+		throw new WebsearchAuthError(
+			'Anthropic web search requires an API key; the Claude Pro/Max OAuth login is not supported. Add a key via `opencode auth login` for provider "anthropic".'
+		);
+	}
+
+	const token = auth.token.trim();
+	if (!token) {
+		throw new WebsearchAuthError("Missing Anthropic token");
+	}
+	return { "x-api-key": token };
+}
+
+// Text blocks carrying `citations` are the cited spans; the marker goes at the end of the block.
+// Cited URLs are numbered first, followed by any other search results the tool returned.
+export function createAnthropicWebsearchResult(
+	response: AnthropicMessagesResponse,
+	query: string,
+	model: string
+): WebsearchResult {
+	const sources: WebsearchSource[] = [];
+	const sourceIndexByUrl = new Map<string, number>();
+
+	const addSource = (url: string, title?: string): number => {
+		const existing = sourceIndexByUrl.get(url);
+		if (existing !== undefined) {
+			return existing;
+		}
+		const index = sources.length;
+		sources.push({ title: title?.trim() || undefined, url });
+		sourceIndexByUrl.set(url, index);
+		return index;
+	};
+
+	let text = "";
+	const citations: WebsearchCitation[] = [];
+	const searchResults: AnthropicWebSearchResult[] = [];
+
+	for (const block of response.content ?? []) {
+		if (block.type === "web_search_tool_result" && Array.isArray(block.content)) {
+			searchResults.push(...block.content);
+			continue;
+		}
+
+		if (block.type !== "text" || typeof block.text !== "string") {
+			continue;
+		}
+
+		const startIndex = text.length;
+		text += block.text;
+
+		const sourceIndices: number[] = [];
+		for (const citation of block.citations ?? []) {
+			const url = citation.url?.trim();
+			if (url) {
+				sourceIndices.push(addSource(url, citation.title));
+			}
+		}
+
+		if (sourceIndices.length > 0) {
+			citations.push({
+				startIndex,
+				endIndex: text.trimEnd().length,
+				sourceIndices: Array.from(new Set(sourceIndices)),
+			});
+		}
+	}
+
+	for (const result of searchResults) {
+		const url = result.url?.trim();
+		if (result.type === "web_search_result" && url) {
+			addSource(url, result.title);
+		}
+	}
+
+	return {
+		provider: "anthropic",
+		model,
+		query,
+		text,
+		citations,
+		sources,
+		usage: response.usage
+			? {
+					inputTokens: response.usage.input_tokens,
+					outputTokens: response.usage.output_tokens,
+					totalTokens:
+						response.usage.input_tokens !== undefined && response.usage.output_tokens !== undefined
+							? response.usage.input_tokens + response.usage.output_tokens
+							: undefined,
+				}
+			: undefined,
+	};
+}
+
+async function runAnthropicWebSearch(options: {
+	model: string;
+	query: string;
+	abortSignal: AbortSignal;
+	auth: ProviderAuth;
+	fetcher: WebsearchFetch;
+	constraints?: WebsearchConstraints;
+	config: AnthropicWebsearchConfig;
+}): Promise<WebsearchResult> {
+	const headers: Record<string, string> = {
+		...buildAuthHeaders(options.auth),
+		"anthropic-version": ANTHROPIC_VERSION,
+		"Content-Type": "application/json",
+	};
+
+	const tool: AnthropicWebSearchTool = { type: "web_search_20250305", name: "web_search" };
+	if (options.config.maxUses !== undefined) {
+		tool.max_uses = options.config.maxUses;
+	}
+	// The tool rejects allow- and block-lists together; with an allow-list, exclusions are enforced afterwards.
+	if (options.constraints?.includeDomains?.length) {
+		tool.allowed_domains = options.constraints.includeDomains;
+	} else if (options.constraints?.excludeDomains?.length) {
+		tool.blocked_domains = options.constraints.excludeDomains;
+	}
+	const userLocation = buildApproximateLocation(options.constraints?.locale);
+	if (userLocation) {
+		tool.user_location = userLocation;
+	}
+	const prompt = appendDateInstruction(buildWebSearchUserPrompt(options.query), options.constraints);
+
+	const body: AnthropicMessagesRequest = {
+		model: options.model,
+		max_tokens: ANTHROPIC_MAX_TOKENS,
+		system: WEB_SEARCH_INSTRUCTIONS,
+		messages: [{ role: "user", content: appendLanguageInstruction(prompt, options.constraints?.locale) }],
+		tools: [tool],
+	};
+
+	const response = await options.fetcher(ANTHROPIC_MESSAGES_ENDPOINT, {
+		method: "POST",
+		headers,
+		body: JSON.stringify(body),
+		signal: options.abortSignal,
+	});
+
+	if (!response.ok) {
+		const text = await response.text().catch(() => "");
+		const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
+		throw new WebsearchHttpError(
+			`status=${response.status} | url=${ANTHROPIC_MESSAGES_ENDPOINT} | requestBody=${JSON.stringify(body)}${details}`,
+			response.status
+		);
+	}
+
+	const payload = (await response.json()) as AnthropicMessagesResponse;
+	return createAnthropicWebsearchResult(payload, options.query, options.model);
+}
+
+export function createAnthropicWebsearchClient(
+	model: string,
+	config: AnthropicWebsearchConfig,
+	fetcher: WebsearchFetch
+): WebsearchClient {
+	const normalizedModel = model.trim();
+	if (!normalizedModel) {
+		throw new Error("Invalid Anthropic web search model");
+	}
+
+	return {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
+			const normalizedQuery = query.trim();
+			if (!normalizedQuery) {
+				throw new Error("Query must not be empty");
+			}
+
+			const auth = await getAuth();
+			if (!auth) {
+				throw new WebsearchAuthError('Missing auth for provider "anthropic"');
+			}
+
+			return runAnthropicWebSearch({
+				model: normalizedModel,
+				query: normalizedQuery,
+				abortSignal,
+				auth,
+				fetcher,
+				config,
+				constraints,
+			});
+		},
+	};
+}
+
+export function parseAnthropicWebsearchConfig(
+	providerConfig: unknown,
+	model: string | undefined
+): AnthropicWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+
+	const result: AnthropicWebsearchConfig = {};
+
+	const maxUses = merged.webSearchMaxUses;
+	if (typeof maxUses === "number" && Number.isInteger(maxUses) && maxUses > 0) {
+		result.maxUses = maxUses;
+	}
+
+	return result;
+}
+
+export const anthropicWebsearchProvider: WebsearchProvider<AnthropicWebsearchConfig> = {
+	id: "anthropic",
+	baseURL: ANTHROPIC_API_BASE,
+	authMethods: [
+		{
+			type: "api",
+			label: "Anthropic API key",
+		},
+	],
+	parseOptions(providerConfig, model) {
+		return parseAnthropicWebsearchConfig(providerConfig, model);
+	},
+	createClient(model, options, fetcher) {
+		return createAnthropicWebsearchClient(model, options, fetcher);
+	},
+};
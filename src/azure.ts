@@ -0,0 +1,133 @@
+import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
+import { WebsearchAuthError } from "./errors.ts";
+import {
+	buildOpenAIResponsesRequest,
+	type OpenAIWebsearchConfig,
+	parseOpenAIWebsearchConfig,
+	sendOpenAIResponsesRequest,
+	WEB_SEARCH_INSTRUCTIONS,
+} from "./openai.ts";
+import { isRecord, readString, resolveProviderOptions } from "./options.ts";
+import type { GetAuth, WebsearchClient, WebsearchFetch, WebsearchProvider } from "./types.ts";
+
+export type AzureOpenAIWebsearchConfig = OpenAIWebsearchConfig & {
+	endpoint?: string;
+	deployment?: string;
+	apiVersion: string;
+};
+
+const DEFAULT_AZURE_API_VERSION = "2025-04-01-preview";
+
+// Reads the resource from `websearch_cited.endpoint` or OpenCode's own `baseURL` / `resourceName`
+// options, so an existing `azure` provider block works without repeating it.
+export function parseAzureOpenAIWebsearchConfig(
+	providerConfig: unknown,
+	model: string | undefined
+): AzureOpenAIWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+	const cited = isRecord(merged.websearch_cited) ? merged.websearch_cited : {};
+
+	const resourceName = readString(merged.resourceName);
+	const endpoint =
+		readString(cited.endpoint) ??
+		readString(merged.baseURL) ??
+		(resourceName ? `https://${resourceName}.openai.azure.com` : undefined);
+
+	const result: AzureOpenAIWebsearchConfig = {
+		...parseOpenAIWebsearchConfig(providerConfig, model),
+		apiVersion: readString(cited.apiVersion) ?? readString(merged.apiVersion) ?? DEFAULT_AZURE_API_VERSION,
+	};
+	if (endpoint) {
+		result.endpoint = endpoint.replace(/\/+$/, "").replace(/\/openai$/, "");
+	}
+	const deployment = readString(cited.deployment);
+	if (deployment) {
+		result.deployment = deployment;
+	}
+
+	return result;
+}
+
+function isJwt(value: string): boolean {
+	return /^eyJ[\w-]*\.[\w-]+\.[\w-]+$/.test(value);
+}
+
+// API keys go in `api-key`; Microsoft Entra ID access tokens (stored as OAuth, well-known
+// or pasted in place of the key) are sent as bearer tokens.
+function buildAuthHeaders(auth: ProviderAuth): Record<string, string> {
+	const secret = (auth.type === "api" ? auth.key : auth.type === "oauth" ? auth.access : auth.token).trim();
+	if (!secret) {
+		throw new WebsearchAuthError("Missing Azure OpenAI API key or Entra ID token");
+	}
+	if (auth.type === "api" && !isJwt(secret)) {
+		return { "api-key": secret };
+	}
+	return { Authorization: `Bearer ${secret}` };
+}
+
+export function createAzureOpenAIWebsearchClient(
+	model: string,
+	config: AzureOpenAIWebsearchConfig,
+	fetcher: WebsearchFetch
+): WebsearchClient {
+	const deployment = config.deployment ?? model.trim();
+	if (!deployment) {
+		throw new Error("Invalid Azure OpenAI deployment");
+	}
+
+	return {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
+			const normalizedQuery = query.trim();
+			if (!normalizedQuery) {
+				throw new Error("Query must not be empty");
+			}
+
+			if (!config.endpoint) {
+				throw new Error(
+					'Missing Azure OpenAI endpoint. Set websearch_cited.endpoint or options.resourceName for provider "azure".'
+				);
+			}
+
+			const auth = await getAuth();
+			if (!auth) {
+				throw new WebsearchAuthError('Missing auth for provider "azure"');
+			}
+
+			const params = new URLSearchParams({ "api-version": config.apiVersion });
+			return sendOpenAIResponsesRequest({
+				provider: "azure",
+				url: `${config.endpoint}/openai/responses?${params.toString()}`,
+				headers: {
+					...buildAuthHeaders(auth),
+					"Content-Type": "application/json",
+				},
+				body: buildOpenAIResponsesRequest({
+					model: deployment,
+					query: normalizedQuery,
+					config,
+					constraints,
+					instructions: WEB_SEARCH_INSTRUCTIONS,
+				}),
+				query: normalizedQuery,
+				abortSignal,
+				fetcher,
+			});
+		},
+	};
+}
+
+export const azureWebsearchProvider: WebsearchProvider<AzureOpenAIWebsearchConfig> = {
+	id: "azure",
+	authMethods: [
+		{
+			type: "api",
+			label: "Azure OpenAI API key",
+		},
+	],
+	parseOptions(providerConfig, model) {
+		return parseAzureOpenAIWebsearchConfig(providerConfig, model);
+	},
+	createClient(model, options, fetcher) {
+		return createAzureOpenAIWebsearchClient(model, options, fetcher);
+	},
+};
@@ -0,0 +1,177 @@
+import { defaultCacheDir } from "./disk_cache.ts";
+import { isRecord } from "./options.ts";
+import type { WebsearchConstraints, WebsearchResult } from "./types.ts";
+
+export type DiskCacheOptions = {
+	dir: string;
+	maxEntries: number;
+	maxBytes: number;
+};
+
+export type CacheOptions = {
+	ttlMs: number;
+	maxEntries: number;
+	disk?: DiskCacheOptions;
+};
+
+export type CachedResult = {
+	result: WebsearchResult;
+	storedAt: number;
+};
+
+export interface ResultCache {
+	get(key: string): Promise<CachedResult | undefined>;
+	set(key: string, result: WebsearchResult, storedAt?: number): Promise<void>;
+}
+
+export type CacheKeyParts = {
+	providerID: string;
+	model: string;
+	query: string;
+	options?: unknown;
+	constraints?: WebsearchConstraints;
+};
+
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+	ttlMs: 10 * 60_000,
+	maxEntries: 100,
+};
+
+export const DEFAULT_DISK_CACHE_MAX_ENTRIES = 1_000;
+export const DEFAULT_DISK_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+// Caching is opt-in: `cache: true` uses the defaults, an object overrides them, anything else disables it.
+export function parseCacheOptions(value: unknown): CacheOptions | undefined {
+	if (value === true) {
+		return { ...DEFAULT_CACHE_OPTIONS };
+	}
+	if (!isRecord(value)) {
+		return undefined;
+	}
+
+	const result: CacheOptions = { ...DEFAULT_CACHE_OPTIONS };
+
+	const ttlMs = value.ttlMs;
+	if (typeof ttlMs === "number" && Number.isFinite(ttlMs) && ttlMs > 0) {
+		result.ttlMs = ttlMs;
+	}
+
+	const maxEntries = value.maxEntries;
+	if (typeof maxEntries === "number" && Number.isInteger(maxEntries) && maxEntries > 0) {
+		result.maxEntries = maxEntries;
+	}
+
+	result.disk = parseDiskCacheOptions(value.disk);
+
+	return result;
+}
+
+function parseDiskCacheOptions(value: unknown): DiskCacheOptions | undefined {
+	if (value === true) {
+		return {
+			dir: defaultCacheDir(),
+			maxEntries: DEFAULT_DISK_CACHE_MAX_ENTRIES,
+			maxBytes: DEFAULT_DISK_CACHE_MAX_BYTES,
+		};
+	}
+	if (!isRecord(value)) {
+		return undefined;
+	}
+
+	const dir = value.dir;
+	const maxEntries = value.maxEntries;
+	const maxBytes = value.maxBytes;
+
+	return {
+		dir: typeof dir === "string" && dir.trim() !== "" ? dir.trim() : defaultCacheDir(),
+		maxEntries:
+			typeof maxEntries === "number" && Number.isInteger(maxEntries) && maxEntries > 0
+				? maxEntries
+				: DEFAULT_DISK_CACHE_MAX_ENTRIES,
+		maxBytes:
+			typeof maxBytes === "number" && Number.isFinite(maxBytes) && maxBytes > 0
+				? maxBytes
+				: DEFAULT_DISK_CACHE_MAX_BYTES,
+	};
+}
+
+export function normalizeQuery(query: string): string {
+	return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function buildCacheKey(parts: CacheKeyParts): string {
+	return JSON.stringify([
+		parts.providerID,
+		parts.model,
+		normalizeQuery(parts.query),
+		parts.options ?? null,
+		parts.constraints ?? null,
+	]);
+}
+
+export function createMemoryResultCache(options: CacheOptions): ResultCache {
+	const entries = new Map<string, CachedResult>();
+
+	return {
+		get(key) {
+			const entry = entries.get(key);
+			if (!entry) {
+				return Promise.resolve(undefined);
+			}
+			if (entry.storedAt + options.ttlMs <= Date.now()) {
+				entries.delete(key);
+				return Promise.resolve(undefined);
+			}
+			// Re-insert so Map iteration order tracks recency.
+			entries.delete(key);
+			entries.set(key, entry);
+			return Promise.resolve(entry);
+		},
+		set(key, result, storedAt = Date.now()) {
+			entries.delete(key);
+			entries.set(key, { result, storedAt });
+			while (entries.size > options.maxEntries) {
+				const oldest = entries.keys().next().value;
+				if (oldest === undefined) {
+					break;
+				}
+				entries.delete(oldest);
+			}
+			return Promise.resolve();
+		},
+	};
+}
+
+// Reads fall through the layers in order and back-fill the faster ones; writes go to every layer.
+export function createTieredResultCache(layers: ResultCache[]): ResultCache {
+	return {
+		async get(key) {
+			for (const [index, layer] of layers.entries()) {
+				const entry = await layer.get(key);
+				if (!entry) {
+					continue;
+				}
+				for (const faster of layers.slice(0, index)) {
+					await faster.set(key, entry.result, entry.storedAt);
+				}
+				return entry;
+			}
+			return undefined;
+		},
+		async set(key, result, storedAt = Date.now()) {
+			for (const layer of layers) {
+				await layer.set(key, result, storedAt);
+			}
+		},
+	};
+}
+
+export function withCacheNotice(cached: CachedResult): WebsearchResult {
+	return {
+		...cached.result,
+		notices: [
+			...(cached.result.notices ?? []),
+			`Served from cache (fetched ${new Date(cached.storedAt).toISOString()}).`,
+		],
+	};
+}
@@ -0,0 +1,153 @@
+import type { WebsearchCitation, WebsearchResult, WebsearchSource } from "./types.ts";
+
+export type UrlCitationAnnotation = {
+	type?: string;
+	url?: string;
+	title?: string;
+	start_index?: number;
+	end_index?: number;
+};
+
+export type AnnotatedText = {
+	text: string;
+	annotations: UrlCitationAnnotation[];
+};
+
+export type CitedAnswer = Pick<WebsearchResult, "text" | "citations" | "sources">;
+
+type ResolvedAnnotation = {
+	url: string;
+	title?: string;
+	start: number;
+	end: number;
+};
+
+// Builds citations from `url_citation` annotations (OpenAI and OpenRouter Responses APIs).
+// Annotation offsets count Unicode code points within their own text part. When the
+// annotated span is an inline link to the cited URL, the span is replaced by the marker.
+export function buildUrlCitedAnswer(parts: AnnotatedText[], extraSources: WebsearchSource[] = []): CitedAnswer {
+	const sources: WebsearchSource[] = [];
+	const sourceIndexByUrl = new Map<string, number>();
+
+	const addSource = (source: WebsearchSource & { url: string }): number => {
+		const existing = sourceIndexByUrl.get(source.url);
+		if (existing !== undefined) {
+			const known = sources[existing];
+			if (known && !known.title && source.title) {
+				known.title = source.title;
+			}
+			return existing;
+		}
+		const index = sources.length;
+		sources.push({ title: source.title, url: source.url });
+		sourceIndexByUrl.set(source.url, index);
+		return index;
+	};
+
+	let text = "";
+	const citations: WebsearchCitation[] = [];
+
+	for (const part of parts) {
+		const annotations = resolveAnnotations(part);
+		let rendered = "";
+		let cursor = 0;
+
+		for (const annotation of annotations) {
+			const start = Math.max(annotation.start, cursor);
+			const end = Math.max(annotation.end, start);
+			const sourceIndex = addSource({ url: annotation.url, title: annotation.title });
+
+			const isInlineLink = part.text.slice(start, end).includes(annotation.url);
+			const offset = text.length + rendered.length;
+			rendered += isInlineLink ? part.text.slice(cursor, start).trimEnd() : part.text.slice(cursor, end);
+			citations.push({
+				startIndex: isInlineLink ? offset : offset + (start - cursor),
+				endIndex: text.length + rendered.length,
+				sourceIndices: [sourceIndex],
+			});
+			cursor = end;
+		}
+
+		rendered += part.text.slice(cursor);
+		text += rendered;
+	}
+
+	for (const source of extraSources) {
+		if (source.url) {
+			addSource({ url: source.url, title: source.title });
+		}
+	}
+
+	return { text, citations, sources };
+}
+
+const CITATION_MARKER_RUN = /(?:\[\d+\])+/g;
+
+// Builds citations from `[n]` markers the model wrote itself, where `n` is the one-based
+// position in `sources`. Markers are lifted out of the text so the shared renderer can
+// place them again; runs that do not resolve (e.g. array syntax in code) stay verbatim.
+export function buildIndexCitedAnswer(raw: string, sources: WebsearchSource[]): CitedAnswer {
+	let text = "";
+	let lastIndex = 0;
+	const citations: WebsearchCitation[] = [];
+
+	for (const match of raw.matchAll(CITATION_MARKER_RUN)) {
+		const index = match.index ?? 0;
+		const sourceIndices = Array.from(match[0].matchAll(/\[(\d+)\]/g))
+			.map((marker) => Number(marker[1]) - 1)
+			.filter((sourceIndex) => sourceIndex >= 0 && sourceIndex < sources.length);
+
+		text += raw.slice(lastIndex, index);
+		lastIndex = index + match[0].length;
+
+		if (sourceIndices.length === 0) {
+			text += match[0];
+			continue;
+		}
+
+		citations.push({
+			startIndex: text.length,
+			endIndex: text.length,
+			sourceIndices: Array.from(new Set(sourceIndices)),
+		});
+	}
+	text += raw.slice(lastIndex);
+
+	return { text, citations, sources };
+}
+
+function resolveAnnotations(part: AnnotatedText): ResolvedAnnotation[] {
+	const resolved: ResolvedAnnotation[] = [];
+
+	for (const annotation of part.annotations) {
+		if (annotation.type !== undefined && annotation.type !== "url_citation") {
+			continue;
+		}
+		const url = annotation.url?.trim();
+		if (!url || typeof annotation.start_index !== "number" || typeof annotation.end_index !== "number") {
+			continue;
+		}
+		const title = annotation.title?.trim();
+		resolved.push({
+			url,
+			title: title || undefined,
+			start: codePointToStringIndex(part.text, annotation.start_index),
+			end: codePointToStringIndex(part.text, annotation.end_index),
+		});
+	}
+
+	return resolved.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+function codePointToStringIndex(text: string, codePointIndex: number): number {
+	let index = 0;
+	let count = 0;
+	for (const char of text) {
+		if (count >= codePointIndex) {
+			break;
+		}
+		index += char.length;
+		count += 1;
+	}
+	return index;
+}
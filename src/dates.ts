@@ -0,0 +1,118 @@
+import type { WebsearchConstraints, WebsearchRecency, WebsearchResult } from "./types.ts";
+
+export type WebsearchDateRange = Pick<WebsearchConstraints, "recency" | "since" | "until">;
+
+const RECENCY_VALUES: readonly WebsearchRecency[] = ["day", "week", "month", "year"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function formatDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+function isRecency(value: unknown): value is WebsearchRecency {
+	return RECENCY_VALUES.includes(value as WebsearchRecency);
+}
+
+function parseDateArg(name: string, value: unknown): string | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	const trimmed = typeof value === "string" ? value.trim() : "";
+	const parsed = ISO_DATE.test(trimmed) ? new Date(`${trimmed}T00:00:00Z`) : undefined;
+	if (!parsed || Number.isNaN(parsed.getTime()) || formatDate(parsed) !== trimmed) {
+		throw new Error(`The '${name}' parameter must be a date in YYYY-MM-DD format.`);
+	}
+	return trimmed;
+}
+
+function recencyStart(recency: WebsearchRecency, now: Date): string {
+	const start = new Date(now.getTime());
+	if (recency === "day") {
+		start.setUTCDate(start.getUTCDate() - 1);
+	} else if (recency === "week") {
+		start.setUTCDate(start.getUTCDate() - 7);
+	} else if (recency === "month") {
+		start.setUTCMonth(start.getUTCMonth() - 1);
+	} else {
+		start.setUTCFullYear(start.getUTCFullYear() - 1);
+	}
+	return formatDate(start);
+}
+
+// Resolves the call's date arguments once per call. `recency` also fills in the `since` date it
+// stands for, so providers without presets can use the absolute form.
+export function resolveDateRange(
+	args: { recency?: unknown; since?: unknown; until?: unknown },
+	now: Date
+): WebsearchDateRange {
+	if (args.recency !== undefined && !isRecency(args.recency)) {
+		throw new Error(`The 'recency' parameter must be one of ${RECENCY_VALUES.join(", ")}.`);
+	}
+
+	const since = parseDateArg("since", args.since);
+	const until = parseDateArg("until", args.until);
+
+	if (args.recency !== undefined) {
+		if (since || until) {
+			throw new Error("Use either 'recency' or 'since'/'until', not both.");
+		}
+		return { recency: args.recency, since: recencyStart(args.recency, now) };
+	}
+
+	if (since && until && since > until) {
+		throw new Error("The 'since' date must not be after the 'until' date.");
+	}
+
+	const range: WebsearchDateRange = {};
+	if (since) {
+		range.since = since;
+	}
+	if (until) {
+		range.until = until;
+	}
+	return range;
+}
+
+// Prompt form for providers whose search tool has no date filter.
+export function appendDateInstruction(prompt: string, constraints: WebsearchConstraints | undefined): string {
+	const { since, until } = constraints ?? {};
+	if (since && until) {
+		return `${prompt}\n\nOnly use sources published between ${since} and ${until}.`;
+	}
+	if (since) {
+		return `${prompt}\n\nOnly use sources published on or after ${since}.`;
+	}
+	if (until) {
+		return `${prompt}\n\nOnly use sources published on or before ${until}.`;
+	}
+	return prompt;
+}
+
+// Undated results are kept; only a known publication date outside the range excludes one.
+export function isWithinDateRange(date: string | undefined, constraints: WebsearchConstraints | undefined): boolean {
+	const day = date?.trim().slice(0, 10);
+	if (!day || !ISO_DATE.test(day)) {
+		return true;
+	}
+	if (constraints?.since && day < constraints.since) {
+		return false;
+	}
+	return !(constraints?.until && day > constraints.until);
+}
+
+export function withDateRangeNotice(result: WebsearchResult, range: WebsearchDateRange): WebsearchResult {
+	const { recency, since, until } = range;
+	let notice: string;
+	if (recency) {
+		notice = `Limited to results from the past ${recency} (since ${since}).`;
+	} else if (since && until) {
+		notice = `Limited to results published from ${since} to ${until}.`;
+	} else if (since) {
+		notice = `Limited to results published since ${since}.`;
+	} else if (until) {
+		notice = `Limited to results published until ${until}.`;
+	} else {
+		return result;
+	}
+	return { ...result, notices: [...(result.notices ?? []), notice] };
+}
@@ -0,0 +1,151 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { CachedResult, DiskCacheOptions, ResultCache } from "./cache.ts";
+import type { WebsearchResult } from "./types.ts";
+
+const ENTRY_SUFFIX = ".json";
+const ENTRY_VERSION = 2;
+
+// Only the key's hash is stored: keys carry the provider options, which may include API keys.
+type DiskCacheEntry = {
+	version: number;
+	keyHash: string;
+	storedAt: number;
+	result: WebsearchResult;
+};
+
+type DiskCacheFile = {
+	filepath: string;
+	bytes: number;
+	storedAt: number;
+};
+
+export type DiskCacheStats = {
+	dir: string;
+	entries: number;
+	bytes: number;
+	oldest?: number;
+	newest?: number;
+};
+
+export function defaultCacheDir(): string {
+	const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache");
+	return path.join(base, "opencode", "websearch-cited");
+}
+
+// One JSON file per entry, named by the hash of its key. The cache is best-effort: I/O failures
+// count as misses and never fail a search.
+export function createDiskResultCache(options: DiskCacheOptions & { ttlMs: number }): ResultCache {
+	return {
+		async get(key) {
+			const keyHash = hashKey(key);
+			const entry = await readEntry(entryPath(options.dir, keyHash));
+			if (!entry || entry.keyHash !== keyHash) {
+				return undefined;
+			}
+			if (entry.storedAt + options.ttlMs <= Date.now()) {
+				await rm(entryPath(options.dir, keyHash), { force: true }).catch(() => {});
+				return undefined;
+			}
+			return { result: entry.result, storedAt: entry.storedAt } satisfies CachedResult;
+		},
+		async set(key, result, storedAt = Date.now()) {
+			const keyHash = hashKey(key);
+			const entry: DiskCacheEntry = { version: ENTRY_VERSION, keyHash, storedAt, result };
+			const filepath = entryPath(options.dir, keyHash);
+			const tempPath = `${filepath}.${process.pid}.tmp`;
+			try {
+				await mkdir(options.dir, { recursive: true });
+				await writeFile(tempPath, JSON.stringify(entry));
+				await rename(tempPath, filepath);
+				await evict(options);
+			} catch {
+				await rm(tempPath, { force: true }).catch(() => {});
+			}
+		},
+	};
+}
+
+export async function readDiskCacheStats(dir: string): Promise<DiskCacheStats> {
+	const files = await listEntries(dir);
+	const stats: DiskCacheStats = { dir, entries: files.length, bytes: 0 };
+	for (const file of files) {
+		stats.bytes += file.bytes;
+		stats.oldest = Math.min(stats.oldest ?? file.storedAt, file.storedAt);
+		stats.newest = Math.max(stats.newest ?? file.storedAt, file.storedAt);
+	}
+	return stats;
+}
+
+export async function clearDiskCache(dir: string): Promise<number> {
+	const files = await listEntries(dir);
+	for (const file of files) {
+		await rm(file.filepath, { force: true });
+	}
+	return files.length;
+}
+
+function hashKey(key: string): string {
+	return createHash("sha256").update(key).digest("hex");
+}
+
+function entryPath(dir: string, keyHash: string): string {
+	return path.join(dir, `${keyHash}${ENTRY_SUFFIX}`);
+}
+
+async function readEntry(filepath: string): Promise<DiskCacheEntry | undefined> {
+	try {
+		const parsed = JSON.parse(await readFile(filepath, "utf8")) as Partial<DiskCacheEntry>;
+		if (parsed.version !== ENTRY_VERSION || typeof parsed.keyHash !== "string" || typeof parsed.storedAt !== "number") {
+			return undefined;
+		}
+		if (!parsed.result || typeof parsed.result !== "object") {
+			return undefined;
+		}
+		return parsed as DiskCacheEntry;
+	} catch {
+		return undefined;
+	}
+}
+
+async function listEntries(dir: string): Promise<DiskCacheFile[]> {
+	let names: string[];
+	try {
+		names = await readdir(dir);
+	} catch {
+		return [];
+	}
+
+	const files: DiskCacheFile[] = [];
+	for (const name of names) {
+		if (!name.endsWith(ENTRY_SUFFIX)) {
+			continue;
+		}
+		const filepath = path.join(dir, name);
+		try {
+			const info = await stat(filepath);
+			files.push({ filepath, bytes: info.size, storedAt: info.mtimeMs });
+		} catch {}
+	}
+	return files;
+}
+
+// Drops the oldest entries until both the entry count and the total size fit the limits.
+async function evict(options: DiskCacheOptions): Promise<void> {
+	const files = await listEntries(options.dir);
+	files.sort((a, b) => a.storedAt - b.storedAt);
+
+	let count = files.length;
+	let bytes = files.reduce((sum, file) => sum + file.bytes, 0);
+
+	for (const file of files) {
+		if (count <= options.maxEntries && bytes <= options.maxBytes) {
+			break;
+		}
+		await rm(file.filepath, { force: true }).catch(() => {});
+		count -= 1;
+		bytes -= file.bytes;
+	}
+}
@@ -0,0 +1,226 @@
+import { resolveCitedSetting } from "./options.ts";
+import type { WebsearchConstraints, WebsearchResult, WebsearchSource } from "./types.ts";
+
+export type WebsearchDomainFilter = Pick<WebsearchConstraints, "includeDomains" | "excludeDomains">;
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/g;
+
+// Accepts "example.com", ".example.com", "*.example.com" or a full URL and keeps the bare host.
+export function normalizeDomain(value: string): string | undefined {
+	let domain = value.trim().toLowerCase();
+	if (domain.includes("://")) {
+		try {
+			domain = new URL(domain).hostname;
+		} catch {
+			return undefined;
+		}
+	}
+	domain = domain
+		.replace(/^\*?\./, "")
+		.replace(/[/?#].*$/, "")
+		.replace(/\.$/, "");
+	return /^[a-z0-9.-]+$/.test(domain) && domain.includes(".") ? domain : undefined;
+}
+
+export function parseDomainList(value: unknown): string[] | undefined {
+	const entries = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : undefined;
+	if (!entries) {
+		return undefined;
+	}
+	const domains = entries.flatMap((entry) => {
+		const domain = typeof entry === "string" ? normalizeDomain(entry) : undefined;
+		return domain ? [domain] : [];
+	});
+	return domains.length > 0 ? Array.from(new Set(domains)) : undefined;
+}
+
+function parseDomainArg(name: string, value: unknown): string[] | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	const entries: unknown[] = Array.isArray(value) ? value : [value];
+	const invalid = entries.filter((entry) => typeof entry !== "string" || !normalizeDomain(entry));
+	if (invalid.length > 0) {
+		const listed = invalid.map((entry) => `'${String(entry)}'`).join(", ");
+		throw new Error(`The '${name}' parameter must list domains such as 'example.com'; not a domain: ${listed}.`);
+	}
+	return parseDomainList(entries);
+}
+
+// Per-call arguments are validated strictly: a dropped entry could silently lift the allow-list.
+export function parseDomainArgs(args: { include_domains?: unknown; exclude_domains?: unknown }): WebsearchDomainFilter {
+	const domains: WebsearchDomainFilter = {};
+	const includeDomains = parseDomainArg("include_domains", args.include_domains);
+	if (includeDomains) {
+		domains.includeDomains = includeDomains;
+	}
+	const excludeDomains = parseDomainArg("exclude_domains", args.exclude_domains);
+	if (excludeDomains) {
+		domains.excludeDomains = excludeDomains;
+	}
+	return domains;
+}
+
+// Configured lists are resolved per model. Per-call `include_domains` replaces the configured
+// allow-list; block-lists are combined (provider, model and call) so a configured exclusion can
+// never be lifted by a model entry or an agent.
+export function resolveDomainConstraints(
+	providerConfig: unknown,
+	model: string,
+	callDomains: WebsearchDomainFilter
+): WebsearchConstraints {
+	const constraints: WebsearchConstraints = {};
+
+	const includeDomains =
+		callDomains.includeDomains ?? resolveCitedSetting(providerConfig, model, "includeDomains", parseDomainList);
+	if (includeDomains) {
+		constraints.includeDomains = includeDomains;
+	}
+
+	const excludeDomains = [
+		...(resolveCitedSetting(providerConfig, undefined, "excludeDomains", parseDomainList) ?? []),
+		...(resolveCitedSetting(providerConfig, model, "excludeDomains", parseDomainList) ?? []),
+		...(callDomains.excludeDomains ?? []),
+	];
+	if (excludeDomains.length > 0) {
+		constraints.excludeDomains = Array.from(new Set(excludeDomains));
+	}
+
+	return constraints;
+}
+
+export function hasDomainConstraints(constraints: WebsearchConstraints | undefined): boolean {
+	return Boolean(constraints?.includeDomains?.length || constraints?.excludeDomains?.length);
+}
+
+function matchesDomain(host: string, domains: string[]): boolean {
+	return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+function isAllowedHost(host: string | undefined, constraints: WebsearchConstraints): boolean {
+	if (!host) {
+		return !constraints.includeDomains?.length;
+	}
+	if (constraints.excludeDomains && matchesDomain(host, constraints.excludeDomains)) {
+		return false;
+	}
+	return !constraints.includeDomains?.length || matchesDomain(host, constraints.includeDomains);
+}
+
+function readHost(url: string | undefined): string | undefined {
+	if (!url) {
+		return undefined;
+	}
+	try {
+		return new URL(url).hostname.toLowerCase();
+	} catch {
+		return undefined;
+	}
+}
+
+export function isAllowedUrl(url: string | undefined, constraints: WebsearchConstraints): boolean {
+	return isAllowedHost(readHost(url), constraints);
+}
+
+// Redirecting sources (e.g. Gemini grounding links) are judged by the site they point to.
+export function isAllowedSource(source: WebsearchSource, constraints: WebsearchConstraints): boolean {
+	return isAllowedHost(source.domain ?? readHost(source.url), constraints);
+}
+
+// Search-operator form for backends that only take a query string (Gemini, Brave, SearXNG).
+export function appendSiteOperators(query: string, constraints: WebsearchConstraints | undefined): string {
+	const operators: string[] = [];
+	const include = constraints?.includeDomains ?? [];
+	if (include.length === 1) {
+		operators.push(`site:${include[0]}`);
+	} else if (include.length > 1) {
+		operators.push(`(${include.map((domain) => `site:${domain}`).join(" OR ")})`);
+	}
+	for (const domain of constraints?.excludeDomains ?? []) {
+		operators.push(`-site:${domain}`);
+	}
+	return operators.length > 0 ? `${query} ${operators.join(" ")}` : query;
+}
+
+// Post-hoc enforcement for every provider: sources from disallowed domains are dropped, the
+// remaining ones renumbered, and inline markdown links to them reduced to their label.
+export function applyDomainConstraints(result: WebsearchResult, constraints: WebsearchConstraints): WebsearchResult {
+	if (!hasDomainConstraints(constraints)) {
+		return result;
+	}
+
+	const sourceIndexMap = new Map<number, number>();
+	const sources = result.sources.filter((source, index) => {
+		if (!isAllowedSource(source, constraints)) {
+			return false;
+		}
+		sourceIndexMap.set(index, sourceIndexMap.size);
+		return true;
+	});
+
+	const { text, mapIndex, removedLinks } = stripDisallowedLinks(result.text, constraints);
+	const dropped = result.sources.length - sources.length;
+	if (dropped === 0 && removedLinks === 0) {
+		return result;
+	}
+
+	const citations = result.citations.flatMap((citation) => {
+		const sourceIndices = citation.sourceIndices.flatMap((index) => {
+			const mapped = sourceIndexMap.get(index);
+			return mapped === undefined ? [] : [mapped];
+		});
+		if (sourceIndices.length === 0) {
+			return [];
+		}
+		return [{ startIndex: mapIndex(citation.startIndex), endIndex: mapIndex(citation.endIndex), sourceIndices }];
+	});
+
+	const notices = [...(result.notices ?? [])];
+	if (dropped > 0) {
+		notices.push(`Dropped ${dropped} source${dropped === 1 ? "" : "s"} outside the allowed domains.`);
+	}
+
+	return { ...result, text, citations, sources, notices };
+}
+
+function stripDisallowedLinks(
+	original: string,
+	constraints: WebsearchConstraints
+): { text: string; mapIndex: (index: number) => number; removedLinks: number } {
+	const edits: { start: number; end: number; replacement: string }[] = [];
+	for (const match of original.matchAll(MARKDOWN_LINK)) {
+		const [whole, label = "", url] = match;
+		if (!isAllowedUrl(url, constraints)) {
+			const start = match.index ?? 0;
+			edits.push({ start, end: start + whole.length, replacement: label });
+		}
+	}
+
+	if (edits.length === 0) {
+		return { text: original, mapIndex: (index) => index, removedLinks: 0 };
+	}
+
+	let text = "";
+	let cursor = 0;
+	for (const edit of edits) {
+		text += original.slice(cursor, edit.start) + edit.replacement;
+		cursor = edit.end;
+	}
+	text += original.slice(cursor);
+
+	const mapIndex = (index: number) => {
+		let shift = 0;
+		for (const edit of edits) {
+			if (index <= edit.start) {
+				break;
+			}
+			if (index < edit.end) {
+				return edit.start + shift + Math.min(index - edit.start, edit.replacement.length);
+			}
+			shift += edit.replacement.length - (edit.end - edit.start);
+		}
+		return index + shift;
+	};
+
+	return { text, mapIndex, removedLinks: edits.length };
+}
@@ -0,0 +1,48 @@
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+
+export class WebsearchHttpError extends Error {
+	readonly status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = "WebsearchHttpError";
+		this.status = status;
+	}
+}
+
+export class WebsearchAuthError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "WebsearchAuthError";
+	}
+}
+
+export function isRetryableStatus(status: number): boolean {
+	return RETRYABLE_STATUSES.has(status) || status >= 500;
+}
+
+export function isAuthStatus(status: number): boolean {
+	return status === 401 || status === 403;
+}
+
+// Errors that another configured provider may not hit: missing or rejected credentials,
+// rate limits and transient upstream failures.
+export function isFailoverError(error: unknown): boolean {
+	if (error instanceof WebsearchAuthError) {
+		return true;
+	}
+	if (error instanceof WebsearchHttpError) {
+		return isAuthStatus(error.status) || isRetryableStatus(error.status);
+	}
+	return false;
+}
+
+export function describeFailure(error: unknown): string {
+	if (error instanceof WebsearchHttpError) {
+		return `status ${error.status}`;
+	}
+	if (error instanceof WebsearchAuthError) {
+		return "auth";
+	}
+	return error instanceof Error ? error.message : String(error);
+}
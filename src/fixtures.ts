@@ -0,0 +1,234 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { defaultFetch } from "./http.ts";
+import { isRecord } from "./options.ts";
+import type { WebsearchFetch } from "./types.ts";
+
+export type FixtureMode = "record" | "replay";
+
+export type FixtureOptions = {
+	mode: FixtureMode;
+	dir: string;
+	// Names of the provider's configured `headers`, redacted whatever they are called.
+	redactHeaders?: string[];
+};
+
+type RecordedRequest = {
+	method: string;
+	url: string;
+	headers: Record<string, string>;
+	body?: string;
+};
+
+type RecordedResponse = {
+	status: number;
+	statusText: string;
+	headers: Record<string, string>;
+	body: string;
+};
+
+type Fixture = {
+	request: RecordedRequest;
+	response: RecordedResponse;
+};
+
+const REDACTED = "[REDACTED]";
+
+const SENSITIVE_HEADERS = new Set([
+	"authorization",
+	"x-goog-api-key",
+	"api-key",
+	"x-api-key",
+	"x-subscription-token",
+	"chatgpt-account-id",
+	"cookie",
+	"set-cookie",
+]);
+
+// Catches gateway credentials such as `cf-aig-authorization` or `x-portkey-api-key`.
+const SENSITIVE_HEADER_PATTERN = /authorization|api-?key|token|secret|cookie/i;
+
+const SENSITIVE_FIELDS = new Set([
+	"access_token",
+	"refresh_token",
+	"id_token",
+	"client_secret",
+	"api_key",
+	"apiKey",
+	"key",
+	"token",
+	"password",
+	"private_key",
+	"assertion",
+]);
+
+// Fields that differ on every call and must not take part in fixture matching.
+const VOLATILE_FIELDS = new Set(["requestId"]);
+
+export function parseFixtureOptions(value: unknown): FixtureOptions | undefined {
+	if (!isRecord(value)) {
+		return undefined;
+	}
+	const { mode, dir } = value;
+	if ((mode !== "record" && mode !== "replay") || typeof dir !== "string" || dir.trim() === "") {
+		return undefined;
+	}
+	return { mode, dir: dir.trim() };
+}
+
+// Record mode passes requests through and stores a sanitized copy of each exchange; replay mode
+// answers from those files and never touches the network. Fixtures are matched on method, URL and
+// the sanitized request body.
+export function createFixtureFetch(options: FixtureOptions, baseFetch: WebsearchFetch = defaultFetch): WebsearchFetch {
+	return async (url, init) => {
+		init.signal?.throwIfAborted();
+
+		const redact = new Set((options.redactHeaders ?? []).map((name) => name.toLowerCase()));
+		const request = sanitizeRequest(url, init, redact);
+		const filepath = path.join(options.dir, `${fixtureName(request)}.json`);
+
+		if (options.mode === "replay") {
+			let fixture: Fixture;
+			try {
+				fixture = JSON.parse(await readFile(filepath, "utf8")) as Fixture;
+			} catch {
+				throw new Error(`No recorded fixture for ${request.method} ${request.url} (${filepath})`);
+			}
+			return new Response(fixture.response.body, {
+				status: fixture.response.status,
+				statusText: fixture.response.statusText,
+				headers: fixture.response.headers,
+			});
+		}
+
+		const response = await baseFetch(url, init);
+		const body = await response.text();
+		const fixture: Fixture = {
+			request,
+			response: {
+				status: response.status,
+				statusText: response.statusText,
+				headers: sanitizeHeaders(response.headers, redact),
+				body: sanitizeBody(body),
+			},
+		};
+		await mkdir(options.dir, { recursive: true });
+		await writeFile(filepath, `${JSON.stringify(fixture, null, 2)}\n`);
+
+		return new Response(body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	};
+}
+
+function fixtureName(request: RecordedRequest): string {
+	const host = safeHost(request.url);
+	const matchBody = request.body === undefined ? "" : stripVolatile(request.body);
+	const hash = createHash("sha256").update(`${request.method} ${request.url}\n${matchBody}`).digest("hex").slice(0, 16);
+	return `${host}-${hash}`;
+}
+
+function safeHost(url: string): string {
+	try {
+		return new URL(url).host.replace(/[^a-zA-Z0-9.-]/g, "_");
+	} catch {
+		return "request";
+	}
+}
+
+function sanitizeRequest(url: string, init: RequestInit, redact: Set<string>): RecordedRequest {
+	const body = readRequestBody(init.body);
+	return {
+		method: (init.method ?? "GET").toUpperCase(),
+		url: sanitizeUrl(url),
+		headers: sanitizeHeaders(new Headers(init.headers), redact),
+		body: body === undefined ? undefined : sanitizeBody(body),
+	};
+}
+
+function readRequestBody(body: RequestInit["body"]): string | undefined {
+	if (body == null) {
+		return undefined;
+	}
+	if (typeof body === "string") {
+		return body;
+	}
+	if (body instanceof URLSearchParams) {
+		return body.toString();
+	}
+	return undefined;
+}
+
+function sanitizeUrl(url: string): string {
+	try {
+		const parsed = new URL(url);
+		for (const name of Array.from(parsed.searchParams.keys())) {
+			if (SENSITIVE_FIELDS.has(name)) {
+				parsed.searchParams.set(name, REDACTED);
+			}
+		}
+		return parsed.toString();
+	} catch {
+		return url;
+	}
+}
+
+function sanitizeHeaders(headers: Headers | undefined, redact: Set<string>): Record<string, string> {
+	const result: Record<string, string> = {};
+	headers?.forEach((value, name) => {
+		result[name] = isSensitiveHeader(name.toLowerCase(), redact) ? REDACTED : value;
+	});
+	return result;
+}
+
+function isSensitiveHeader(name: string, redact: Set<string>): boolean {
+	return SENSITIVE_HEADERS.has(name) || redact.has(name) || SENSITIVE_HEADER_PATTERN.test(name);
+}
+
+function sanitizeBody(body: string): string {
+	const trimmed = body.trim();
+	if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+		try {
+			return JSON.stringify(redactJson(JSON.parse(trimmed) as unknown));
+		} catch {}
+	}
+
+	if (/^[^\s=&]+=[^\s&]*(&[^\s=&]+=[^\s&]*)*$/.test(trimmed)) {
+		const params = new URLSearchParams(trimmed);
+		for (const name of Array.from(params.keys())) {
+			if (SENSITIVE_FIELDS.has(name)) {
+				params.set(name, REDACTED);
+			}
+		}
+		return params.toString();
+	}
+
+	return body;
+}
+
+function redactJson(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(redactJson);
+	}
+	if (!isRecord(value)) {
+		return value;
+	}
+	const result: Record<string, unknown> = {};
+	for (const [name, entry] of Object.entries(value)) {
+		result[name] = SENSITIVE_FIELDS.has(name) && typeof entry === "string" ? REDACTED : redactJson(entry);
+	}
+	return result;
+}
+
+function stripVolatile(body: string): string {
+	try {
+		const parsed = JSON.parse(body) as unknown;
+		if (isRecord(parsed)) {
+			return JSON.stringify(Object.fromEntries(Object.entries(parsed).filter(([name]) => !VOLATILE_FIELDS.has(name))));
+		}
+	} catch {}
+	return body;
+}
@@ -1,5 +1,19 @@
 import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
-import type { GetAuth, WebsearchClient } from "./types.ts";
+import { appendDateInstruction } from "./dates.ts";
+import { appendSiteOperators, normalizeDomain } from "./domains.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { appendLocaleInstructions } from "./locale.ts";
+import { renderWebsearchResult } from "./render.ts";
+import type {
+	GetAuth,
+	WebsearchCitation,
+	WebsearchClient,
+	WebsearchFetch,
+	WebsearchProvider,
+	WebsearchResult,
+	WebsearchSource,
+	WebsearchUsage,
+} from "./types.ts";
 
 type GeminiChunkWeb = {
 	title?: string;
@@ -40,13 +54,15 @@ type GeminiCandidate = {
 	groundingMetadata?: GeminiMetadata;
 };
 
-type GeminiGenerateContentResponse = {
-	candidates?: GeminiCandidate[];
+type GeminiUsageMetadata = {
+	promptTokenCount?: number;
+	candidatesTokenCount?: number;
+	totalTokenCount?: number;
 };
 
-type CitationInsertion = {
-	index: number;
-	marker: string;
+type GeminiGenerateContentResponse = {
+	candidates?: GeminiCandidate[];
+	usageMetadata?: GeminiUsageMetadata;
 };
 
 type GeminiWebSearchOptions = {
@@ -54,12 +70,14 @@ type GeminiWebSearchOptions = {
 	model: string;
 	query: string;
 	abortSignal: AbortSignal;
+	fetcher: WebsearchFetch;
 };
 
 type GeminiClientConfig = {
 	mode: "api";
 	apiKey: string;
 	model: string;
+	fetcher: WebsearchFetch;
 };
 
 type OAuthAuthDetails = {
@@ -81,9 +99,10 @@ type RefreshedToken = {
 };
 
 interface WebSearchClient {
-	search(query: string, abortSignal: AbortSignal): Promise<string>;
+	search(query: string, abortSignal: AbortSignal): Promise<WebsearchResult>;
 }
 
+const GROUNDING_REDIRECT_HOST = "vertexaisearch.cloud.google.com";
 const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
 const ANTIGRAVITY_ENDPOINT_DAILY = "https://daily-cloudcode-pa.sandbox.googleapis.com";
 const ANTIGRAVITY_ENDPOINT_AUTOPUSH = "https://autopush-cloudcode-pa.sandbox.googleapis.com";
@@ -123,7 +142,7 @@ function buildGeminiUrl(model: string): string {
 }
 
 async function runGeminiWebSearch(options: GeminiWebSearchOptions): Promise<GeminiGenerateContentResponse> {
-	const response = await fetch(buildGeminiUrl(options.model), {
+	const response = await options.fetcher(buildGeminiUrl(options.model), {
 		method: "POST",
 		headers: {
 			"Content-Type": "application/json",
@@ -146,42 +165,55 @@ async function runGeminiWebSearch(options: GeminiWebSearchOptions): Promise<Gemi
 
 	if (!response.ok) {
 		const message = await readErrorMessage(response);
-		throw new Error(message ?? `Request failed with status ${response.status}`);
+		throw new WebsearchHttpError(message ?? `Request failed with status ${response.status}`, response.status);
 	}
 
 	return (await response.json()) as GeminiGenerateContentResponse;
 }
 
-export function formatWebSearchResponse(response: GeminiGenerateContentResponse, query: string): string {
-	const responseText = extractResponseText(response);
-
-	if (!responseText || !responseText.trim()) {
-		return `No search results or information found for query: "${query}"`;
-	}
-
-	const metadata = extractGroundingMetadata(response);
-	const sources = metadata?.groundingChunks;
-	const hasSources = Boolean(sources && sources.length > 0);
-
-	let modifiedText = responseText;
+export function formatWebSearchResponse(response: GeminiGenerateContentResponse, query: string, model = ""): string {
+	return renderWebsearchResult(createGeminiWebsearchResult(response, query, model));
+}
 
-	if (hasSources && metadata) {
-		const insertions = buildCitationInsertions(metadata);
-		if (insertions.length > 0) {
-			modifiedText = insertMarkersByUtf8Index(modifiedText, insertions);
+// Grounding chunks link through a Vertex AI Search redirect; the real site is only given as the title.
+function toGroundingSource(web: GeminiChunkWeb | undefined): WebsearchSource {
+	const source: WebsearchSource = { title: web?.title, url: web?.uri };
+	if (web?.title && isGroundingRedirect(web.uri)) {
+		const domain = normalizeDomain(web.title);
+		if (domain) {
+			source.domain = domain;
 		}
 	}
+	return source;
+}
 
-	if (hasSources && sources) {
-		const sourceLines = sources.map((source, index) => {
-			const title = source.web?.title || "Untitled";
-			const uri = source.web?.uri || "No URI";
-			return `[${index + 1}] ${title} (${uri})`;
-		});
-		modifiedText += `\n\nSources:\n${sourceLines.join("\n")}`;
+function isGroundingRedirect(uri: string | undefined): boolean {
+	try {
+		const url = new URL(uri ?? "");
+		return url.hostname === GROUNDING_REDIRECT_HOST && url.pathname.startsWith("/grounding-api-redirect/");
+	} catch {
+		return false;
 	}
+}
+
+export function createGeminiWebsearchResult(
+	response: GeminiGenerateContentResponse,
+	query: string,
+	model: string
+): WebsearchResult {
+	const text = extractResponseText(response) ?? "";
+	const metadata = extractGroundingMetadata(response);
+	const chunks = metadata?.groundingChunks ?? [];
 
-	return modifiedText;
+	return {
+		provider: "google",
+		model,
+		query,
+		text,
+		citations: buildCitations(text, metadata),
+		sources: chunks.map((chunk) => toGroundingSource(chunk.web)),
+		usage: extractUsage(response),
+	};
 }
 
 function extractResponseText(response: GeminiGenerateContentResponse): string | undefined {
@@ -207,13 +239,25 @@ function extractGroundingMetadata(response: GeminiGenerateContentResponse): Gemi
 	return response.candidates?.[0]?.groundingMetadata;
 }
 
-function buildCitationInsertions(metadata?: GeminiMetadata): CitationInsertion[] {
+function extractUsage(response: GeminiGenerateContentResponse): WebsearchUsage | undefined {
+	const usage = response.usageMetadata;
+	if (!usage) {
+		return undefined;
+	}
+	return {
+		inputTokens: usage.promptTokenCount,
+		outputTokens: usage.candidatesTokenCount,
+		totalTokens: usage.totalTokenCount,
+	};
+}
+
+function buildCitations(text: string, metadata?: GeminiMetadata): WebsearchCitation[] {
 	const supports = metadata?.groundingSupports;
 	if (!supports || supports.length === 0) {
 		return [];
 	}
 
-	const insertions: CitationInsertion[] = [];
+	const citations: WebsearchCitation[] = [];
 
 	for (const support of supports) {
 		const segment = support.segment;
@@ -222,54 +266,37 @@ function buildCitationInsertions(metadata?: GeminiMetadata): CitationInsertion[]
 			continue;
 		}
 
-		const uniqueSorted = Array.from(new Set(indices)).sort((a, b) => a - b);
-		const marker = uniqueSorted.map((idx) => `[${idx + 1}]`).join("");
-
-		insertions.push({
-			index: segment.endIndex,
-			marker,
+		citations.push({
+			startIndex: utf8ToStringIndex(text, segment.startIndex ?? 0),
+			endIndex: utf8ToStringIndex(text, segment.endIndex),
+			sourceIndices: Array.from(new Set(indices)).sort((a, b) => a - b),
 		});
 	}
 
-	insertions.sort((a, b) => b.index - a.index);
-	return insertions;
+	return citations;
 }
 
-function insertMarkersByUtf8Index(text: string, insertions: CitationInsertion[]): string {
-	if (insertions.length === 0) {
-		return text;
-	}
-
+// Gemini reports segment offsets in UTF-8 bytes; map them onto string indices.
+function utf8ToStringIndex(text: string, byteIndex: number): number {
 	const encoder = new TextEncoder();
-	const responseBytes = encoder.encode(text);
-	const parts: Uint8Array[] = [];
-	let lastIndex = responseBytes.length;
-
-	for (const insertion of insertions) {
-		const position = Math.min(insertion.index, lastIndex);
-		parts.unshift(responseBytes.subarray(position, lastIndex));
-		parts.unshift(encoder.encode(insertion.marker));
-		lastIndex = position;
-	}
-
-	parts.unshift(responseBytes.subarray(0, lastIndex));
-
-	const totalLength = parts.reduce((sum, part) => sum + part.length, 0);
-	const finalBytes = new Uint8Array(totalLength);
-	let offset = 0;
-	for (const part of parts) {
-		finalBytes.set(part, offset);
-		offset += part.length;
+	let bytes = 0;
+	let index = 0;
+	for (const char of text) {
+		if (bytes >= byteIndex) {
+			break;
+		}
+		bytes += encoder.encode(char).length;
+		index += char.length;
 	}
-
-	return new TextDecoder().decode(finalBytes);
+	return index;
 }
 
 class GeminiApiKeyClient implements WebSearchClient {
 	private readonly apiKey: string;
 	private readonly model: string;
+	private readonly fetcher: WebsearchFetch;
 
-	constructor(apiKey: string, model: string) {
+	constructor(apiKey: string, model: string, fetcher: WebsearchFetch) {
 		const normalizedKey = apiKey.trim();
 		const normalizedModel = model.trim();
 		if (!normalizedKey || !normalizedModel) {
@@ -277,17 +304,19 @@ class GeminiApiKeyClient implements WebSearchClient {
 		}
 		this.apiKey = normalizedKey;
 		this.model = normalizedModel;
+		this.fetcher = fetcher;
 	}
 
-	async search(query: string, abortSignal: AbortSignal): Promise<string> {
+	async search(query: string, abortSignal: AbortSignal): Promise<WebsearchResult> {
 		const normalizedQuery = query.trim();
 		const response = await runGeminiWebSearch({
 			apiKey: this.apiKey,
 			model: this.model,
 			query: normalizedQuery,
 			abortSignal,
+			fetcher: this.fetcher,
 		});
-		return formatWebSearchResponse(response, normalizedQuery);
+		return createGeminiWebsearchResult(response, normalizedQuery, this.model);
 	}
 }
 
@@ -328,9 +357,9 @@ function cacheToken(refreshToken: string, accessToken: string, expiresAt?: numbe
 	}
 }
 
-async function requestToken(refreshToken: string): Promise<RefreshedToken> {
+async function requestToken(refreshToken: string, fetcher: WebsearchFetch): Promise<RefreshedToken> {
 	const requestTime = Date.now();
-	const response = await fetch(OAUTH_TOKEN_ENDPOINT, {
+	const response = await fetcher(OAUTH_TOKEN_ENDPOINT, {
 		method: "POST",
 		headers: {
 			"Content-Type": "application/x-www-form-urlencoded",
@@ -345,7 +374,7 @@ async function requestToken(refreshToken: string): Promise<RefreshedToken> {
 
 	if (!response.ok) {
 		const message = await readErrorMessage(response);
-		throw new Error(message ?? `Request failed with status ${response.status}`);
+		throw new WebsearchAuthError(message ?? `Token refresh failed with status ${response.status}`);
 	}
 
 	const payload = (await response.json()) as {
@@ -365,8 +394,8 @@ async function requestToken(refreshToken: string): Promise<RefreshedToken> {
 	};
 }
 
-async function refreshAccessToken(refreshToken: string): Promise<RefreshedToken> {
-	const result = await requestToken(refreshToken);
+async function refreshAccessToken(refreshToken: string, fetcher: WebsearchFetch): Promise<RefreshedToken> {
+	const result = await requestToken(refreshToken, fetcher);
 	cacheToken(refreshToken, result.accessToken, result.expiresAt);
 	return result;
 }
@@ -390,7 +419,8 @@ function buildMetadata(projectId?: string): Record<string, string> {
 async function loadManagedProject(
 	accessToken: string,
 	projectId: string | undefined,
-	abortSignal: AbortSignal
+	abortSignal: AbortSignal,
+	fetcher: WebsearchFetch
 ): Promise<LoadCodeAssistPayload | null> {
 	const loadHeaders: Record<string, string> = {
 		"Content-Type": "application/json",
@@ -408,7 +438,7 @@ async function loadManagedProject(
 
 	for (const baseEndpoint of loadEndpoints) {
 		try {
-			const response = await fetch(`${baseEndpoint}${GEMINI_CODE_ASSIST_LOAD_PATH}`, {
+			const response = await fetcher(`${baseEndpoint}${GEMINI_CODE_ASSIST_LOAD_PATH}`, {
 				method: "POST",
 				headers: loadHeaders,
 				body: JSON.stringify(requestBody),
@@ -447,7 +477,8 @@ async function resolveProjectId(
 	accessToken: string,
 	refreshToken: string,
 	refreshParts: RefreshParts,
-	abortSignal: AbortSignal
+	abortSignal: AbortSignal,
+	fetcher: WebsearchFetch
 ): Promise<string> {
 	if (refreshParts.managedProjectId) {
 		return refreshParts.managedProjectId;
@@ -460,7 +491,7 @@ async function resolveProjectId(
 
 	const fallbackProjectId = ANTIGRAVITY_DEFAULT_PROJECT_ID;
 	const desiredProjectId = refreshParts.projectId ?? fallbackProjectId;
-	const loadPayload = await loadManagedProject(accessToken, desiredProjectId, abortSignal);
+	const loadPayload = await loadManagedProject(accessToken, desiredProjectId, abortSignal, fetcher);
 	const resolvedManagedProjectId = extractManagedProjectId(loadPayload);
 
 	if (resolvedManagedProjectId) {
@@ -494,7 +525,8 @@ async function requestGenerateContent(
 	projectId: string,
 	model: string,
 	query: string,
-	abortSignal: AbortSignal
+	abortSignal: AbortSignal,
+	fetcher: WebsearchFetch
 ): Promise<{ ok: true; body: GeminiGenerateContentResponse } | { ok: false; status: number; message?: string }> {
 	const requestPayload: Record<string, unknown> = {
 		contents: [
@@ -526,7 +558,7 @@ async function requestGenerateContent(
 	let lastError: { status: number; message?: string } | undefined;
 
 	for (const baseUrl of CODE_ASSIST_GENERATE_ENDPOINTS) {
-		const response = await fetch(`${baseUrl}${GEMINI_CODE_ASSIST_GENERATE_PATH}`, {
+		const response = await fetcher(`${baseUrl}${GEMINI_CODE_ASSIST_GENERATE_PATH}`, {
 			method: "POST",
 			headers,
 			body,
@@ -573,18 +605,22 @@ async function requestGenerateContent(
 	};
 }
 
-function createGeminiOAuthWebSearchClient(authDetails: OAuthAuthDetails, model: string): WebSearchClient {
+function createGeminiOAuthWebSearchClient(
+	authDetails: OAuthAuthDetails,
+	model: string,
+	fetcher: WebsearchFetch
+): WebSearchClient {
 	const refreshParts = parseRefresh(authDetails.refresh ?? "");
 	const refreshToken = refreshParts.refreshToken;
 	if (!refreshToken) {
-		throw new Error("Missing Google OAuth refresh token");
+		throw new WebsearchAuthError("Missing Google OAuth refresh token");
 	}
 
 	const initialAccess = authDetails.access?.trim() ?? "";
 	const initialExpires = parseExpires(authDetails.expires);
 
 	return {
-		async search(query: string, abortSignal: AbortSignal): Promise<string> {
+		async search(query: string, abortSignal: AbortSignal): Promise<WebsearchResult> {
 			const normalizedQuery = query.trim();
 
 			const cached = getCachedAccess(refreshToken);
@@ -593,54 +629,65 @@ function createGeminiOAuthWebSearchClient(authDetails: OAuthAuthDetails, model:
 			let refreshedThisRequest = false;
 
 			if (accessTokenExpired(accessToken, expiresAt)) {
-				const refreshed = await refreshAccessToken(refreshToken);
+				const refreshed = await refreshAccessToken(refreshToken, fetcher);
 				accessToken = refreshed.accessToken;
 				expiresAt = refreshed.expiresAt;
 				refreshedThisRequest = true;
 			}
 
 			if (!accessToken) {
-				throw new Error("Missing Google OAuth access token");
+				throw new WebsearchAuthError("Missing Google OAuth access token");
 			}
 
 			if (typeof expiresAt === "number") {
 				cacheToken(refreshToken, accessToken, expiresAt);
 			}
 
-			const effectiveProjectId = await resolveProjectId(accessToken, refreshToken, refreshParts, abortSignal);
+			const effectiveProjectId = await resolveProjectId(accessToken, refreshToken, refreshParts, abortSignal, fetcher);
 
 			const firstAttempt = await requestGenerateContent(
 				accessToken,
 				effectiveProjectId,
 				model,
 				normalizedQuery,
-				abortSignal
+				abortSignal,
+				fetcher
 			);
 
 			if (firstAttempt.ok) {
-				return formatWebSearchResponse(firstAttempt.body, normalizedQuery);
+				return createGeminiWebsearchResult(firstAttempt.body, normalizedQuery, model);
 			}
 
 			const shouldRetry = (firstAttempt.status === 401 || firstAttempt.status === 403) && !refreshedThisRequest;
 
 			if (!shouldRetry) {
-				throw new Error(firstAttempt.message ?? `Request failed with status ${firstAttempt.status}`);
+				throw new WebsearchHttpError(
+					firstAttempt.message ?? `Request failed with status ${firstAttempt.status}`,
+					firstAttempt.status
+				);
 			}
 
 			tokenCache.delete(refreshToken);
-			const refreshed = await refreshAccessToken(refreshToken);
+			const refreshed = await refreshAccessToken(refreshToken, fetcher);
 			accessToken = refreshed.accessToken;
 			expiresAt = refreshed.expiresAt;
 			refreshedThisRequest = true;
 			cacheToken(refreshToken, accessToken, expiresAt);
 
-			const retry = await requestGenerateContent(accessToken, effectiveProjectId, model, normalizedQuery, abortSignal);
+			const retry = await requestGenerateContent(
+				accessToken,
+				effectiveProjectId,
+				model,
+				normalizedQuery,
+				abortSignal,
+				fetcher
+			);
 
 			if (retry.ok) {
-				return formatWebSearchResponse(retry.body, normalizedQuery);
+				return createGeminiWebsearchResult(retry.body, normalizedQuery, model);
 			}
 
-			throw new Error(retry.message ?? `Request failed with status ${retry.status}`);
+			throw new WebsearchHttpError(retry.message ?? `Request failed with status ${retry.status}`, retry.status);
 		},
 	};
 }
@@ -692,28 +739,33 @@ async function readErrorMessage(response: Response): Promise<string | undefined>
 }
 
 function createGeminiWebSearchClient(config: GeminiClientConfig): WebSearchClient {
-	return new GeminiApiKeyClient(config.apiKey, config.model);
+	return new GeminiApiKeyClient(config.apiKey, config.model, config.fetcher);
 }
 
-function createWebSearchClientForGoogle(authDetails: ProviderAuth, model: string): WebSearchClient {
+function createWebSearchClientForGoogle(
+	authDetails: ProviderAuth,
+	model: string,
+	fetcher: WebsearchFetch
+): WebSearchClient {
 	if (authDetails.type === "api") {
 		const apiKey = extractApiKey(authDetails);
 		if (!apiKey) {
-			throw new Error("Missing Google API key");
+			throw new WebsearchAuthError("Missing Google API key");
 		}
 		return createGeminiWebSearchClient({
 			mode: "api",
 			apiKey,
 			model,
+			fetcher,
 		});
 	}
 
 	if (authDetails.type === "oauth") {
 		const oauthAuth = authDetails as OAuthAuthDetails;
-		return createGeminiOAuthWebSearchClient(oauthAuth, model);
+		return createGeminiOAuthWebSearchClient(oauthAuth, model, fetcher);
 	}
 
-	throw new Error("Unsupported auth type for Google web search");
+	throw new WebsearchAuthError("Unsupported auth type for Google web search");
 }
 
 function extractApiKey(authDetails?: ProviderAuth | null): string | undefined {
@@ -724,14 +776,14 @@ function extractApiKey(authDetails?: ProviderAuth | null): string | undefined {
 	return normalized === "" ? undefined : normalized;
 }
 
-export function createGoogleWebsearchClient(model: string): WebsearchClient {
+export function createGoogleWebsearchClient(model: string, fetcher: WebsearchFetch): WebsearchClient {
 	const normalizedModel = model.trim();
 	if (!normalizedModel) {
 		throw new Error("Invalid Google web search model");
 	}
 
 	return {
-		async search(query, abortSignal, getAuth: GetAuth) {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
 			const normalizedQuery = query.trim();
 			if (!normalizedQuery) {
 				throw new Error("Query must not be empty");
@@ -739,11 +791,34 @@ export function createGoogleWebsearchClient(model: string): WebsearchClient {
 
 			const auth = await getAuth();
 			if (!auth) {
-				throw new Error('Missing auth for provider "google"');
+				throw new WebsearchAuthError('Missing auth for provider "google"');
 			}
 
-			const client = createWebSearchClientForGoogle(auth, normalizedModel);
-			return client.search(normalizedQuery, abortSignal);
+			// Gemini's googleSearch tool has no domain, date or locale options; the prompt steers its queries instead.
+			const client = createWebSearchClientForGoogle(auth, normalizedModel, fetcher);
+			const prompt = appendLocaleInstructions(
+				appendDateInstruction(appendSiteOperators(normalizedQuery, constraints), constraints),
+				constraints?.locale
+			);
+			const result = await client.search(prompt, abortSignal);
+			return { ...result, query: normalizedQuery };
 		},
 	};
 }
+
+export const googleWebsearchProvider: WebsearchProvider = {
+	id: "google",
+	baseURL: GEMINI_API_BASE,
+	authMethods: [
+		{
+			type: "api",
+			label: "Google API key",
+		},
+	],
+	parseOptions() {
+		return undefined;
+	},
+	createClient(model, _options, fetcher) {
+		return createGoogleWebsearchClient(model, fetcher);
+	},
+};
@@ -0,0 +1,301 @@
+import { readFile } from "node:fs/promises";
+import { rootCertificates } from "node:tls";
+import { isRetryableStatus } from "./errors.ts";
+import { isRecord, readString, resolveProviderOptions } from "./options.ts";
+import type { WebsearchFetch } from "./types.ts";
+
+export type RetryOptions = {
+	maxAttempts: number;
+	initialDelayMs: number;
+	maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+	maxAttempts: 3,
+	initialDelayMs: 500,
+	maxDelayMs: 8_000,
+};
+
+// A Retry-After longer than this is treated as "not worth waiting for" and the response is returned as-is.
+const MAX_RETRY_AFTER_MS = 60_000;
+
+const NETWORK_ERROR_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ETIMEDOUT",
+	"EPIPE",
+	"EAI_AGAIN",
+	"ConnectionRefused",
+	"ConnectionClosed",
+]);
+
+export const defaultFetch: WebsearchFetch = (url, init) => fetch(url, init);
+
+// Outbound network settings: proxies from `websearch_cited.proxy` or HTTPS_PROXY / HTTP_PROXY,
+// hosts exempted by NO_PROXY, and an extra CA bundle trusted next to the bundled roots.
+export type NetworkOptions = {
+	httpsProxy?: string;
+	httpProxy?: string;
+	noProxy: string[];
+	caFile?: string;
+};
+
+export function parseNetworkOptions(cited: Record<string, unknown>, env = process.env): NetworkOptions {
+	const readEnv = (name: string) => readString(env[name]) ?? readString(env[name.toLowerCase()]);
+	const configuredProxy = readString(cited.proxy);
+
+	const options: NetworkOptions = {
+		noProxy: (readEnv("NO_PROXY") ?? "")
+			.split(",")
+			.map((entry) => entry.trim().toLowerCase())
+			.filter((entry) => entry !== ""),
+	};
+
+	const httpsProxy = configuredProxy ?? readEnv("HTTPS_PROXY");
+	if (httpsProxy) {
+		options.httpsProxy = httpsProxy;
+	}
+	const httpProxy = configuredProxy ?? readEnv("HTTP_PROXY");
+	if (httpProxy) {
+		options.httpProxy = httpProxy;
+	}
+	const caFile = readString(cited.caFile);
+	if (caFile) {
+		options.caFile = caFile;
+	}
+
+	return options;
+}
+
+// Passes Bun's fetch-only `proxy` and `tls` options; every request of a provider, including
+// OAuth token refreshes, goes through here.
+export function createNetworkFetch(options: NetworkOptions, baseFetch: WebsearchFetch = defaultFetch): WebsearchFetch {
+	if (!options.httpsProxy && !options.httpProxy && !options.caFile) {
+		return baseFetch;
+	}
+
+	let trustedCertificates: Promise<string[]> | undefined;
+	const loadTrustedCertificates = (caFile: string) => {
+		trustedCertificates ??= readFile(caFile, "utf8").then(
+			(pem) => [...rootCertificates, pem],
+			(error: unknown) => {
+				trustedCertificates = undefined;
+				const reason = error instanceof Error ? error.message : String(error);
+				throw new Error(`Unable to read CA bundle at ${caFile}: ${reason}`);
+			}
+		);
+		return trustedCertificates;
+	};
+
+	return async (url, init) => {
+		const networkInit: BunFetchRequestInit = { ...init };
+
+		const proxy = resolveProxy(url, options);
+		if (proxy) {
+			networkInit.proxy = proxy;
+		}
+		if (options.caFile) {
+			networkInit.tls = { ca: await loadTrustedCertificates(options.caFile) };
+		}
+
+		return baseFetch(url, networkInit);
+	};
+}
+
+function resolveProxy(url: string, options: NetworkOptions): string | undefined {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return undefined;
+	}
+
+	const proxy = parsed.protocol === "http:" ? options.httpProxy : options.httpsProxy;
+	if (!proxy || bypassesProxy(parsed, options.noProxy)) {
+		return undefined;
+	}
+	return proxy;
+}
+
+// NO_PROXY entries match the host and its subdomains ("example.com", ".example.com"),
+// optionally a single port ("example.com:8443"); "*" disables proxying altogether.
+function bypassesProxy(url: URL, noProxy: string[]): boolean {
+	const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+	const port = url.port || (url.protocol === "http:" ? "80" : "443");
+
+	return noProxy.some((entry) => {
+		if (entry === "*") {
+			return true;
+		}
+		const [entryHost = "", entryPort] = entry.startsWith("[") ? entry.slice(1).split("]:") : entry.split(":");
+		if (entryPort && entryPort !== port) {
+			return false;
+		}
+		const suffix = entryHost.replace(/^\*?\./, "").replace(/\]$/, "");
+		return host === suffix || host.endsWith(`.${suffix}`);
+	});
+}
+
+// `baseURL` and `headers` from a provider's `options` (model options win), e.g. for an AI gateway.
+export type EndpointOptions = {
+	baseURL?: string;
+	headers: Record<string, string>;
+};
+
+export function parseEndpointOptions(providerConfig: unknown, model: string | undefined): EndpointOptions {
+	const merged = resolveProviderOptions(providerConfig, model);
+
+	const headers: Record<string, string> = {};
+	if (isRecord(merged.headers)) {
+		for (const [name, value] of Object.entries(merged.headers)) {
+			if (typeof value === "string" && name.trim() !== "") {
+				headers[name.trim()] = value;
+			}
+		}
+	}
+
+	const baseURL = typeof merged.baseURL === "string" ? merged.baseURL.trim().replace(/\/+$/, "") : "";
+	return baseURL ? { baseURL, headers } : { headers };
+}
+
+// Reroutes requests under the provider's public API root to the configured `baseURL` and adds the
+// configured headers to them. Other requests (OAuth token refresh, Code Assist) pass through untouched.
+// Providers without a public root (self-hosted, per-resource endpoints) get the headers on every request.
+export function createEndpointFetch(
+	defaultBaseURL: string | undefined,
+	endpoint: EndpointOptions,
+	baseFetch: WebsearchFetch = defaultFetch
+): WebsearchFetch {
+	const hasHeaders = Object.keys(endpoint.headers).length > 0;
+	if (!endpoint.baseURL && !hasHeaders) {
+		return baseFetch;
+	}
+
+	const root = defaultBaseURL ?? endpoint.baseURL;
+	return (url, init) => {
+		if (root && !isUnderBase(url, root)) {
+			return baseFetch(url, init);
+		}
+
+		const target = defaultBaseURL && endpoint.baseURL ? `${endpoint.baseURL}${url.slice(defaultBaseURL.length)}` : url;
+		if (!hasHeaders) {
+			return baseFetch(target, init);
+		}
+
+		// Configured headers replace same-named client headers (e.g. a gateway's own Authorization).
+		const headers = new Headers(init.headers);
+		for (const [name, value] of Object.entries(endpoint.headers)) {
+			headers.set(name, value);
+		}
+		return baseFetch(target, { ...init, headers: Object.fromEntries(headers) });
+	};
+}
+
+function isUnderBase(url: string, base: string): boolean {
+	return url === base || url.startsWith(`${base}/`) || url.startsWith(`${base}?`);
+}
+
+export function parseRetryOptions(value: unknown): RetryOptions {
+	if (!isRecord(value)) {
+		return { ...DEFAULT_RETRY_OPTIONS };
+	}
+
+	return {
+		maxAttempts: readPositiveInteger(value.maxAttempts) ?? DEFAULT_RETRY_OPTIONS.maxAttempts,
+		initialDelayMs: readNonNegativeNumber(value.initialDelayMs) ?? DEFAULT_RETRY_OPTIONS.initialDelayMs,
+		maxDelayMs: readNonNegativeNumber(value.maxDelayMs) ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+	};
+}
+
+export function createRetryingFetch(options: RetryOptions, baseFetch: WebsearchFetch = defaultFetch): WebsearchFetch {
+	return async (url, init) => {
+		const signal = init.signal ?? undefined;
+
+		for (let attempt = 1; ; attempt += 1) {
+			signal?.throwIfAborted();
+
+			let response: Response;
+			try {
+				response = await baseFetch(url, init);
+			} catch (error) {
+				if (attempt >= options.maxAttempts || signal?.aborted || !isNetworkError(error)) {
+					throw error;
+				}
+				await sleep(backoffDelay(attempt, options), signal);
+				continue;
+			}
+
+			if (response.ok || attempt >= options.maxAttempts || !isRetryableStatus(response.status)) {
+				return response;
+			}
+
+			const delay = readRetryAfter(response) ?? backoffDelay(attempt, options);
+			if (delay > MAX_RETRY_AFTER_MS) {
+				return response;
+			}
+
+			await response.body?.cancel().catch(() => {});
+			await sleep(delay, signal);
+		}
+	};
+}
+
+// Full jitter: a random delay between zero and the capped exponential step.
+function backoffDelay(attempt: number, options: RetryOptions): number {
+	const ceiling = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** (attempt - 1));
+	return Math.random() * ceiling;
+}
+
+function readRetryAfter(response: Response): number | undefined {
+	const value = response.headers?.get("retry-after")?.trim();
+	if (!value) {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	if (Number.isFinite(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+function isNetworkError(error: unknown): boolean {
+	if (error instanceof TypeError) {
+		return true;
+	}
+	const code = (error as { code?: unknown } | null)?.code;
+	return typeof code === "string" && NETWORK_ERROR_CODES.has(code);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+function readPositiveInteger(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function readNonNegativeNumber(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,114 @@
+import { sleep } from "./http.ts";
+
+export type LimiterOptions = {
+	maxConcurrent: number;
+	requestsPerMinute?: number;
+};
+
+export const DEFAULT_MAX_CONCURRENT = 5;
+
+export interface RequestLimiter {
+	run<T>(task: () => Promise<T>, abortSignal: AbortSignal): Promise<T>;
+}
+
+type Waiter = {
+	resolve: () => void;
+	reject: (reason: unknown) => void;
+	abortSignal: AbortSignal;
+	onAbort: () => void;
+};
+
+export function parseLimiterOptions(cited: Record<string, unknown>): LimiterOptions {
+	const result: LimiterOptions = { maxConcurrent: DEFAULT_MAX_CONCURRENT };
+
+	const concurrency = cited.concurrency;
+	if (typeof concurrency === "number" && Number.isInteger(concurrency) && concurrency > 0) {
+		result.maxConcurrent = concurrency;
+	}
+
+	const requestsPerMinute = cited.requestsPerMinute;
+	if (typeof requestsPerMinute === "number" && Number.isFinite(requestsPerMinute) && requestsPerMinute > 0) {
+		result.requestsPerMinute = requestsPerMinute;
+	}
+
+	return result;
+}
+
+// Caps in-flight searches per provider and, optionally, spaces them out with a token bucket.
+// Queued calls leave the queue as soon as their abort signal fires.
+export function createRequestLimiter(options: LimiterOptions): RequestLimiter {
+	let active = 0;
+	const waiters: Waiter[] = [];
+
+	// Rates below one per minute still need room for a whole token, or the bucket never fills.
+	const refillPerMs = (options.requestsPerMinute ?? 0) / 60_000;
+	const bucketCapacity = options.requestsPerMinute === undefined ? 0 : Math.max(1, options.requestsPerMinute);
+	let tokens = bucketCapacity;
+	let lastRefill = Date.now();
+
+	const acquireSlot = (abortSignal: AbortSignal): Promise<void> => {
+		abortSignal.throwIfAborted();
+		if (active < options.maxConcurrent) {
+			active += 1;
+			return Promise.resolve();
+		}
+
+		return new Promise((resolve, reject) => {
+			const waiter: Waiter = {
+				resolve,
+				reject,
+				abortSignal,
+				onAbort: () => {
+					const index = waiters.indexOf(waiter);
+					if (index !== -1) {
+						waiters.splice(index, 1);
+					}
+					reject(abortSignal.reason);
+				},
+			};
+			abortSignal.addEventListener("abort", waiter.onAbort, { once: true });
+			waiters.push(waiter);
+		});
+	};
+
+	const releaseSlot = (): void => {
+		const next = waiters.shift();
+		if (!next) {
+			active -= 1;
+			return;
+		}
+		next.abortSignal.removeEventListener("abort", next.onAbort);
+		next.resolve();
+	};
+
+	const acquireToken = async (abortSignal: AbortSignal): Promise<void> => {
+		if (bucketCapacity <= 0) {
+			return;
+		}
+
+		for (;;) {
+			const now = Date.now();
+			tokens = Math.min(bucketCapacity, tokens + (now - lastRefill) * refillPerMs);
+			lastRefill = now;
+
+			if (tokens >= 1) {
+				tokens -= 1;
+				return;
+			}
+
+			await sleep((1 - tokens) / refillPerMs, abortSignal);
+		}
+	};
+
+	return {
+		async run(task, abortSignal) {
+			await acquireSlot(abortSignal);
+			try {
+				await acquireToken(abortSignal);
+				return await task();
+			} finally {
+				releaseSlot();
+			}
+		},
+	};
+}
@@ -0,0 +1,155 @@
+import { resolveCitedSetting } from "./options.ts";
+import type { WebsearchLocale } from "./types.ts";
+
+type LocaleArgs = { country?: unknown; city?: unknown; timezone?: unknown; language?: unknown };
+
+const COUNTRY_CODE = /^[a-z]{2}$/i;
+
+function normalizeCountry(value: unknown): string | undefined {
+	const trimmed = typeof value === "string" ? value.trim() : "";
+	return COUNTRY_CODE.test(trimmed) ? trimmed.toUpperCase() : undefined;
+}
+
+function normalizeCity(value: unknown): string | undefined {
+	const trimmed = typeof value === "string" ? value.trim() : "";
+	return trimmed ? trimmed : undefined;
+}
+
+function normalizeTimezone(value: unknown): string | undefined {
+	const trimmed = typeof value === "string" ? value.trim() : "";
+	if (!trimmed) {
+		return undefined;
+	}
+	try {
+		return new Intl.DateTimeFormat("en-US", { timeZone: trimmed }).resolvedOptions().timeZone;
+	} catch {
+		return undefined;
+	}
+}
+
+function normalizeLanguage(value: unknown): string | undefined {
+	const trimmed = typeof value === "string" ? value.trim() : "";
+	if (!trimmed) {
+		return undefined;
+	}
+	try {
+		return Intl.getCanonicalLocales(trimmed)[0];
+	} catch {
+		return undefined;
+	}
+}
+
+function readLocale(values: LocaleArgs): WebsearchLocale {
+	const locale: WebsearchLocale = {};
+	const country = normalizeCountry(values.country);
+	if (country) {
+		locale.country = country;
+	}
+	const city = normalizeCity(values.city);
+	if (city) {
+		locale.city = city;
+	}
+	const timezone = normalizeTimezone(values.timezone);
+	if (timezone) {
+		locale.timezone = timezone;
+	}
+	const language = normalizeLanguage(values.language);
+	if (language) {
+		locale.language = language;
+	}
+	return locale;
+}
+
+// Per-call arguments are validated strictly so a typo surfaces to the agent instead of being ignored.
+export function parseLocaleArgs(args: LocaleArgs): WebsearchLocale {
+	const locale = readLocale(args);
+	const checks: [keyof LocaleArgs, string][] = [
+		["country", "a two-letter ISO 3166-1 country code, e.g. 'DE'"],
+		["city", "a non-empty city name"],
+		["timezone", "an IANA time zone, e.g. 'Europe/Berlin'"],
+		["language", "a BCP 47 language tag, e.g. 'de' or 'de-DE'"],
+	];
+	for (const [key, expected] of checks) {
+		if (args[key] !== undefined && locale[key] === undefined) {
+			throw new Error(`The '${key}' parameter must be ${expected}.`);
+		}
+	}
+	return locale;
+}
+
+// Configured defaults are resolved per model and field; each call argument overrides its own field.
+export function resolveLocale(providerConfig: unknown, model: string, callLocale: WebsearchLocale): WebsearchLocale {
+	const locale: WebsearchLocale = {};
+	const country = resolveCitedSetting(providerConfig, model, "country", normalizeCountry);
+	if (country) {
+		locale.country = country;
+	}
+	const city = resolveCitedSetting(providerConfig, model, "city", normalizeCity);
+	if (city) {
+		locale.city = city;
+	}
+	const timezone = resolveCitedSetting(providerConfig, model, "timezone", normalizeTimezone);
+	if (timezone) {
+		locale.timezone = timezone;
+	}
+	const language = resolveCitedSetting(providerConfig, model, "language", normalizeLanguage);
+	if (language) {
+		locale.language = language;
+	}
+	return { ...locale, ...callLocale };
+}
+
+function displayName(type: "language" | "region", code: string): string {
+	try {
+		return new Intl.DisplayNames(["en"], { type }).of(code) ?? code;
+	} catch {
+		return code;
+	}
+}
+
+export function countryName(country: string): string {
+	return displayName("region", country);
+}
+
+export function primaryLanguage(language: string): string {
+	return language.split("-")[0]?.toLowerCase() ?? language;
+}
+
+export function appendLanguageInstruction(prompt: string, locale: WebsearchLocale | undefined): string {
+	if (!locale?.language) {
+		return prompt;
+	}
+	return `${prompt}\n\nWrite the answer in ${displayName("language", locale.language)}.`;
+}
+
+// Prompt form for providers whose search tool cannot be told where the user is.
+export function appendLocationInstruction(prompt: string, locale: WebsearchLocale | undefined): string {
+	const place = [locale?.city, locale?.country && countryName(locale.country)].filter(Boolean).join(", ");
+	if (!place && !locale?.timezone) {
+		return prompt;
+	}
+	const zone = locale?.timezone ? ` (time zone ${locale.timezone})` : "";
+	const where = place ? `in ${place}${zone}` : `in the ${locale?.timezone} time zone`;
+	return `${prompt}\n\nThe user is located ${where}; prefer sources and rules that apply there.`;
+}
+
+export function appendLocaleInstructions(prompt: string, locale: WebsearchLocale | undefined): string {
+	return appendLanguageInstruction(appendLocationInstruction(prompt, locale), locale);
+}
+
+export type ApproximateLocation = {
+	type: "approximate";
+	country?: string;
+	region?: string;
+	city?: string;
+	timezone?: string;
+};
+
+// The `user_location` shape shared by OpenAI's and Anthropic's web search tools.
+export function buildApproximateLocation(locale: WebsearchLocale | undefined): ApproximateLocation | undefined {
+	const { country, city, timezone } = locale ?? {};
+	if (!country && !city && !timezone) {
+		return undefined;
+	}
+	return { type: "approximate", country, city, timezone };
+}
@@ -1,6 +1,20 @@
 import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
+import { type AnnotatedText, buildUrlCitedAnswer, type CitedAnswer, type UrlCitationAnnotation } from "./citations.ts";
 import codexPrompt from "./codex_prompt.md" with { type: "text" };
-import type { GetAuth, WebsearchClient } from "./types.ts";
+import { appendDateInstruction } from "./dates.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { type ApproximateLocation, appendLanguageInstruction, buildApproximateLocation } from "./locale.ts";
+import { readString, resolveCitedSetting, resolveProviderOptions } from "./options.ts";
+import type {
+	GetAuth,
+	WebsearchClient,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchProvider,
+	WebsearchResult,
+	WebsearchSource,
+	WebsearchUsage,
+} from "./types.ts";
 
 type OpenAIReasoningConfig = {
 	effort?: string;
@@ -23,9 +37,14 @@ type OpenAIInputMessage = {
 
 type OpenAITool = {
 	type: "web_search";
+	filters?: {
+		allowed_domains: string[];
+	};
+	user_location?: ApproximateLocation;
+	search_context_size?: OpenAISearchContextSize;
 };
 
-type OpenAIResponsesRequest = {
+export type OpenAIResponsesRequest = {
 	model: string;
 	instructions: string;
 	input: OpenAIInputMessage[];
@@ -39,9 +58,15 @@ type OpenAIResponsesRequest = {
 	parallel_tool_calls?: boolean;
 };
 
-function buildWebSearchUserPrompt(query: string): string {
+const OPENAI_API_BASE = "https://api.openai.com/v1";
+const CODEX_RESPONSES_ENDPOINT = "https://chatgpt.com/backend-api/codex/responses";
+
+// Shared by the providers whose search tool attaches citations itself (OpenAI, Azure OpenAI, Anthropic).
+export const WEB_SEARCH_INSTRUCTIONS = "You are an AI assistant answering a single web search query for the user.";
+
+export function buildWebSearchUserPrompt(query: string): string {
 	const normalized = query.trim();
-	return `perform web search on "${normalized}". Return results with inline citations (**only** source index like [1], no URL in the answer) and end with a Sources list of URLs.`;
+	return `perform web search on "${normalized}". Return a concise digest grounded in the search results. Do not write citation markers, URLs or a Sources list yourself; citations are attached from the search results.`;
 }
 
 type OpenAIWebSearchOptions = {
@@ -49,26 +74,28 @@ type OpenAIWebSearchOptions = {
 	query: string;
 	abortSignal: AbortSignal;
 	auth: ProviderAuth;
-	reasoningEffort?: string;
-	reasoningSummary?: string;
-	textVerbosity?: string;
-	store?: boolean;
-	include?: string[];
+	fetcher: WebsearchFetch;
+	config: OpenAIWebsearchConfig;
+	constraints?: WebsearchConstraints;
 };
 
+type OpenAISearchContextSize = "low" | "medium" | "high";
+
 export type OpenAIWebsearchConfig = {
 	reasoningEffort?: string;
 	reasoningSummary?: string;
 	textVerbosity?: string;
 	store?: boolean;
 	include?: string[];
+	searchContextSize?: OpenAISearchContextSize;
+	region?: string;
 };
 
 function getAccessToken(auth: ProviderAuth): string {
 	if (auth.type === "oauth") {
 		const access = auth.access.trim();
 		if (!access) {
-			throw new Error("Missing OpenAI OAuth access token");
+			throw new WebsearchAuthError("Missing OpenAI OAuth access token");
 		}
 		return access;
 	}
@@ -76,14 +103,14 @@ function getAccessToken(auth: ProviderAuth): string {
 	if (auth.type === "api") {
 		const key = auth.key.trim();
 		if (!key) {
-			throw new Error("Missing OpenAI API key");
+			throw new WebsearchAuthError("Missing OpenAI API key");
 		}
 		return key;
 	}
 
 	const token = auth.token.trim();
 	if (!token) {
-		throw new Error("Missing OpenAI token");
+		throw new WebsearchAuthError("Missing OpenAI token");
 	}
 	return token;
 }
@@ -129,71 +156,131 @@ function extractChatGPTAccountId(auth: ProviderAuth): string | undefined {
 	}
 }
 
-async function runOpenAIWebSearch(options: OpenAIWebSearchOptions): Promise<string> {
-	const normalizedModel = options.model.trim();
-	if (!normalizedModel) {
-		throw new Error("Invalid OpenAI web search model");
+// Shared with the Azure OpenAI provider, which serves the same Responses API under a deployment name.
+export function buildOpenAIResponsesRequest(options: {
+	model: string;
+	query: string;
+	config: OpenAIWebsearchConfig;
+	instructions: string;
+	constraints?: WebsearchConstraints;
+}): OpenAIResponsesRequest {
+	const { config } = options;
+	const tool: OpenAITool = { type: "web_search" };
+	if (config.searchContextSize) {
+		tool.search_context_size = config.searchContextSize;
 	}
-
-	const normalizedQuery = options.query.trim();
-	if (!normalizedQuery) {
-		throw new Error("Query must not be empty");
+	// The web_search tool only takes an allow-list; exclusions are enforced on the returned sources.
+	if (options.constraints?.includeDomains?.length) {
+		tool.filters = { allowed_domains: options.constraints.includeDomains };
 	}
-
-	const accessToken = getAccessToken(options.auth);
-	const isOAuth = options.auth.type === "oauth";
+	const userLocation = buildApproximateLocation(options.constraints?.locale);
+	if (userLocation || config.region) {
+		tool.user_location = { ...(userLocation ?? { type: "approximate" }), region: config.region };
+	}
+	const prompt = appendDateInstruction(buildWebSearchUserPrompt(options.query), options.constraints);
 
 	const body: OpenAIResponsesRequest = {
-		model: normalizedModel,
-		instructions: "",
+		model: options.model,
+		instructions: options.instructions,
 		input: [
 			{
 				role: "user",
 				content: [
 					{
 						type: "input_text",
-						text: buildWebSearchUserPrompt(normalizedQuery),
+						text: appendLanguageInstruction(prompt, options.constraints?.locale),
 					},
 				],
 			},
 		],
-		tools: [{ type: "web_search" }],
+		tools: [tool],
 		include: ["web_search_call.action.sources"],
 	};
 
-	if (options.reasoningEffort || options.reasoningSummary) {
+	if (config.reasoningEffort || config.reasoningSummary) {
 		body.reasoning = {
-			effort: options.reasoningEffort,
-			summary: options.reasoningSummary,
+			effort: config.reasoningEffort,
+			summary: config.reasoningSummary,
 		};
 	}
 	body.store = false;
 
-	if (options.textVerbosity) {
+	if (config.textVerbosity) {
 		body.text = {
-			verbosity: options.textVerbosity,
+			verbosity: config.textVerbosity,
 		};
 	}
 
-	if (Array.isArray(options.include) && options.include.length > 0) {
-		const filtered = options.include.filter((value) => typeof value === "string" && value.trim() !== "");
-		if (filtered.length > 0) {
-			body.include = filtered;
-		}
+	// Configured entries are added to the sources include, which the Sources list is built from.
+	if (Array.isArray(config.include) && config.include.length > 0) {
+		const filtered = config.include.filter((value) => typeof value === "string" && value.trim() !== "");
+		body.include = [...new Set([...(body.include ?? []), ...filtered])];
 	}
 
 	body.stream = true;
 	body.tool_choice = "auto";
 	body.parallel_tool_calls = true;
 
-	if (isOAuth) {
-		// NOTE: Do not modify Codex backend instructions; invalid instructions will be rejected.
-		body.instructions = codexPrompt;
-	} else {
-		body.instructions = "You are an AI assistant answering a single web search query for the user.";
+	return body;
+}
+
+export async function sendOpenAIResponsesRequest(options: {
+	provider: string;
+	url: string;
+	headers: Record<string, string>;
+	body: OpenAIResponsesRequest;
+	query: string;
+	abortSignal: AbortSignal;
+	fetcher: WebsearchFetch;
+}): Promise<WebsearchResult> {
+	const response = await options.fetcher(options.url, {
+		method: "POST",
+		headers: options.headers,
+		body: JSON.stringify(options.body),
+		signal: options.abortSignal,
+	});
+
+	if (!response.ok) {
+		const message = await buildErrorDetails(response, options.url, options.body);
+		throw new WebsearchHttpError(message, response.status);
+	}
+
+	const payload = await readOpenAIResponsePayload(response);
+	const answer = extractOpenAIAnswer(payload);
+
+	return {
+		provider: options.provider,
+		model: options.body.model,
+		query: options.query,
+		...answer,
+		usage: extractOpenAIUsage(payload),
+	};
+}
+
+async function runOpenAIWebSearch(options: OpenAIWebSearchOptions): Promise<WebsearchResult> {
+	const normalizedModel = options.model.trim();
+	if (!normalizedModel) {
+		throw new Error("Invalid OpenAI web search model");
 	}
 
-	const url = isOAuth ? "https://chatgpt.com/backend-api/codex/responses" : "https://api.openai.com/v1/responses";
+	const normalizedQuery = options.query.trim();
+	if (!normalizedQuery) {
+		throw new Error("Query must not be empty");
+	}
+
+	const accessToken = getAccessToken(options.auth);
+	const isOAuth = options.auth.type === "oauth";
+
+	const body = buildOpenAIResponsesRequest({
+		model: normalizedModel,
+		query: normalizedQuery,
+		config: options.config,
+		constraints: options.constraints,
+		// NOTE: Do not modify Codex backend instructions; invalid instructions will be rejected.
+		instructions: isOAuth ? codexPrompt : WEB_SEARCH_INSTRUCTIONS,
+	});
+
+	const url = isOAuth ? CODEX_RESPONSES_ENDPOINT : `${OPENAI_API_BASE}/responses`;
 
 	const headers: Record<string, string> = {
 		Authorization: `Bearer ${accessToken}`,
@@ -209,36 +296,29 @@ async function runOpenAIWebSearch(options: OpenAIWebSearchOptions): Promise<stri
 		headers.originator = "codex_cli_rs";
 	}
 
-	const response = await fetch(url, {
-		method: "POST",
+	return sendOpenAIResponsesRequest({
+		provider: "openai",
+		url,
 		headers,
-		body: JSON.stringify(body),
-		signal: options.abortSignal,
+		body,
+		query: normalizedQuery,
+		abortSignal: options.abortSignal,
+		fetcher: options.fetcher,
 	});
-
-	if (!response.ok) {
-		const message = await buildErrorDetails(response, url, body);
-		throw new Error(message);
-	}
-
-	const payload = await readOpenAIResponsePayload(response);
-	const text = extractOpenAIText(payload);
-
-	if (!text || !text.trim()) {
-		return `Web search completed for "${normalizedQuery}", but no results were returned.`;
-	}
-
-	return text;
 }
 
-export function createOpenAIWebsearchClient(model: string, config: OpenAIWebsearchConfig): WebsearchClient {
+export function createOpenAIWebsearchClient(
+	model: string,
+	config: OpenAIWebsearchConfig,
+	fetcher: WebsearchFetch
+): WebsearchClient {
 	const normalizedModel = model.trim();
 	if (!normalizedModel) {
 		throw new Error("Invalid OpenAI web search model");
 	}
 
 	return {
-		async search(query, abortSignal, getAuth: GetAuth) {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
 			const normalizedQuery = query.trim();
 			if (!normalizedQuery) {
 				throw new Error("Query must not be empty");
@@ -246,7 +326,7 @@ export function createOpenAIWebsearchClient(model: string, config: OpenAIWebsear
 
 			const auth = await getAuth();
 			if (!auth) {
-				throw new Error('Missing auth for provider "openai"');
+				throw new WebsearchAuthError('Missing auth for provider "openai"');
 			}
 
 			return runOpenAIWebSearch({
@@ -254,34 +334,108 @@ export function createOpenAIWebsearchClient(model: string, config: OpenAIWebsear
 				query: normalizedQuery,
 				abortSignal,
 				auth,
-				reasoningEffort: config.reasoningEffort,
-				reasoningSummary: config.reasoningSummary,
-				textVerbosity: config.textVerbosity,
-				store: config.store,
-				include: config.include,
+				fetcher,
+				config,
+				constraints,
 			});
 		},
 	};
 }
 
-function extractOpenAIText(payload: unknown): string | undefined {
+function parseSearchContextSize(value: unknown): OpenAISearchContextSize | undefined {
+	return value === "low" || value === "medium" || value === "high" ? value : undefined;
+}
+
+export function parseOpenAIWebsearchConfig(providerConfig: unknown, model: string | undefined): OpenAIWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+
+	const result: OpenAIWebsearchConfig = {};
+
+	const reasoningEffort = merged.reasoningEffort;
+	if (typeof reasoningEffort === "string" && reasoningEffort.trim() !== "") {
+		result.reasoningEffort = reasoningEffort.trim();
+	}
+
+	const reasoningSummary = merged.reasoningSummary;
+	if (typeof reasoningSummary === "string" && reasoningSummary.trim() !== "") {
+		result.reasoningSummary = reasoningSummary.trim();
+	}
+
+	const textVerbosity = merged.textVerbosity;
+	if (typeof textVerbosity === "string" && textVerbosity.trim() !== "") {
+		result.textVerbosity = textVerbosity.trim();
+	}
+
+	const store = merged.store;
+	if (typeof store === "boolean") {
+		result.store = store;
+	}
+
+	const include = merged.include;
+	if (Array.isArray(include)) {
+		const filtered = include.filter((value) => typeof value === "string" && value.trim() !== "");
+		if (filtered.length > 0) {
+			result.include = filtered;
+		}
+	}
+
+	// Tool settings may sit in websearch_cited or in the plain options, so one model can raise
+	// e.g. `searchContextSize` without repeating the provider's block.
+	const searchContextSize = resolveCitedSetting(providerConfig, model, "searchContextSize", parseSearchContextSize);
+	if (searchContextSize) {
+		result.searchContextSize = searchContextSize;
+	}
+
+	// OpenAI's user location also takes a free-form region, which the shared locale settings lack.
+	const region = resolveCitedSetting(providerConfig, model, "region", readString);
+	if (region) {
+		result.region = region;
+	}
+
+	return result;
+}
+
+export const openaiWebsearchProvider: WebsearchProvider<OpenAIWebsearchConfig> = {
+	id: "openai",
+	baseURL: OPENAI_API_BASE,
+	authMethods: [
+		{
+			type: "api",
+			label: "OpenAI API key",
+		},
+	],
+	parseOptions(providerConfig, model) {
+		return parseOpenAIWebsearchConfig(providerConfig, model);
+	},
+	createClient(model, options, fetcher) {
+		return createOpenAIWebsearchClient(model, options, fetcher);
+	},
+};
+
+function extractOpenAIAnswer(payload: unknown): CitedAnswer {
 	if (!payload || typeof payload !== "object") {
-		return undefined;
+		return buildUrlCitedAnswer([]);
 	}
 
 	const root = payload as { output?: unknown };
 	const output = root.output;
 	if (!Array.isArray(output) || output.length === 0) {
-		return undefined;
+		return buildUrlCitedAnswer([]);
 	}
 
-	let combined = "";
+	const parts: AnnotatedText[] = [];
+	const searchSources: WebsearchSource[] = [];
 
 	for (const item of output) {
 		if (!item || typeof item !== "object") {
 			continue;
 		}
 
+		if ((item as { type?: unknown }).type === "web_search_call") {
+			searchSources.push(...extractWebSearchCallSources(item));
+			continue;
+		}
+
 		const content = (item as { content?: unknown }).content;
 		if (!Array.isArray(content)) {
 			continue;
@@ -298,18 +452,79 @@ function extractOpenAIText(payload: unknown): string | undefined {
 			}
 
 			const textField = (part as { text?: unknown }).text;
+			let text: string | undefined;
 			if (typeof textField === "string") {
-				combined += textField;
+				text = textField;
 			} else if (textField && typeof textField === "object") {
 				const obj = textField as { value?: unknown };
 				if (typeof obj.value === "string") {
-					combined += obj.value;
+					text = obj.value;
 				}
 			}
+
+			if (text === undefined) {
+				continue;
+			}
+
+			const annotations = (part as { annotations?: unknown }).annotations;
+			parts.push({
+				text,
+				annotations: Array.isArray(annotations) ? (annotations as UrlCitationAnnotation[]) : [],
+			});
+		}
+	}
+
+	return buildUrlCitedAnswer(parts, searchSources);
+}
+
+function extractWebSearchCallSources(item: object): WebsearchSource[] {
+	const action = (item as { action?: unknown }).action;
+	if (!action || typeof action !== "object") {
+		return [];
+	}
+
+	const sources = (action as { sources?: unknown }).sources;
+	if (!Array.isArray(sources)) {
+		return [];
+	}
+
+	const result: WebsearchSource[] = [];
+	for (const source of sources) {
+		if (!source || typeof source !== "object") {
+			continue;
+		}
+		const { url, title } = source as { url?: unknown; title?: unknown };
+		if (typeof url !== "string" || url.trim() === "") {
+			continue;
 		}
+		result.push({
+			url: url.trim(),
+			title: typeof title === "string" && title.trim() !== "" ? title.trim() : undefined,
+		});
+	}
+	return result;
+}
+
+function extractOpenAIUsage(payload: unknown): WebsearchUsage | undefined {
+	if (!payload || typeof payload !== "object") {
+		return undefined;
+	}
+
+	const usage = (payload as { usage?: unknown }).usage;
+	if (!usage || typeof usage !== "object") {
+		return undefined;
 	}
 
-	return combined || undefined;
+	const { input_tokens, output_tokens, total_tokens } = usage as {
+		input_tokens?: unknown;
+		output_tokens?: unknown;
+		total_tokens?: unknown;
+	};
+	return {
+		inputTokens: typeof input_tokens === "number" ? input_tokens : undefined,
+		outputTokens: typeof output_tokens === "number" ? output_tokens : undefined,
+		totalTokens: typeof total_tokens === "number" ? total_tokens : undefined,
+	};
 }
 
 async function buildErrorDetails(response: Response, url: string, body: OpenAIResponsesRequest): Promise<string> {
@@ -1,25 +1,57 @@
 import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
-import type { GetAuth, WebsearchClient } from "./types.ts";
+import { type AnnotatedText, buildUrlCitedAnswer, type UrlCitationAnnotation } from "./citations.ts";
+import { appendDateInstruction } from "./dates.ts";
+import { appendSiteOperators } from "./domains.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { appendLocaleInstructions } from "./locale.ts";
+import { isRecord, resolveProviderOptions } from "./options.ts";
+import type {
+	GetAuth,
+	WebsearchClient,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchProvider,
+	WebsearchResult,
+	WebsearchUsage,
+} from "./types.ts";
+
+type OpenRouterSearchEngine = "native" | "exa";
 
 type OpenRouterPluginWeb = {
 	id: "web";
 	search_prompt: string;
+	engine?: OpenRouterSearchEngine;
+	max_results?: number;
+};
+
+type OpenRouterProviderPreferences = {
+	order?: string[];
+	only?: string[];
+	ignore?: string[];
+	allow_fallbacks?: boolean;
+	require_parameters?: boolean;
+	data_collection?: "allow" | "deny";
+	sort?: "price" | "throughput" | "latency";
 };
 
 type OpenRouterResponsesRequest = {
 	model: string;
 	input: string;
 	plugins: OpenRouterPluginWeb[];
+	provider?: OpenRouterProviderPreferences;
 	store: false;
 	stream: false;
 };
 
-type OpenRouterUrlCitationAnnotation = {
+export type OpenRouterWebsearchConfig = {
+	engine?: OpenRouterSearchEngine;
+	maxResults?: number;
+	searchPrompt?: string;
+	routing?: OpenRouterProviderPreferences;
+};
+
+type OpenRouterUrlCitationAnnotation = UrlCitationAnnotation & {
 	type?: "url_citation";
-	url?: string;
-	title?: string;
-	start_index?: number;
-	end_index?: number;
 };
 
 type OpenRouterResponsesTextContent = {
@@ -34,50 +66,129 @@ type OpenRouterResponsesMessage = {
 	content?: OpenRouterResponsesTextContent[];
 };
 
+type OpenRouterResponsesUsage = {
+	input_tokens?: number;
+	output_tokens?: number;
+	total_tokens?: number;
+};
+
 type OpenRouterResponsesBody = {
 	output_text?: string;
 	output?: OpenRouterResponsesMessage[];
+	usage?: OpenRouterResponsesUsage;
 };
 
-const OPENROUTER_RESPONSES_ENDPOINT = "https://openrouter.ai/api/v1/responses";
+const OPENROUTER_API_BASE = "https://openrouter.ai/api/v1";
+const OPENROUTER_RESPONSES_ENDPOINT = `${OPENROUTER_API_BASE}/responses`;
+const OPENROUTER_MAX_RESULTS_LIMIT = 20;
 
 function buildWebSearchUserPrompt(query: string): string {
 	const normalized = query.trim();
-	return `perform web search on "${normalized}". Return results with inline citations (**only** source index like [1], no URL in the answer) and end with a Sources list of URLs.`;
+	return `perform web search on "${normalized}". Cite sources inline as markdown links named by the source domain, e.g. [example.com](https://example.com/page). Do not add a Sources list.`;
+}
+
+function readStringList(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) {
+		return undefined;
+	}
+	const entries = value.flatMap((entry) => (typeof entry === "string" && entry.trim() ? [entry.trim()] : []));
+	return entries.length > 0 ? entries : undefined;
+}
+
+// Routing preferences mirror OpenRouter's `provider` object with camelCase keys, e.g.
+// { "order": ["anthropic"], "allowFallbacks": false, "dataCollection": "deny", "sort": "price" }.
+function parseRoutingPreferences(value: unknown): OpenRouterProviderPreferences | undefined {
+	if (!isRecord(value)) {
+		return undefined;
+	}
+
+	const preferences: OpenRouterProviderPreferences = {};
+	const order = readStringList(value.order);
+	if (order) {
+		preferences.order = order;
+	}
+	const only = readStringList(value.only);
+	if (only) {
+		preferences.only = only;
+	}
+	const ignore = readStringList(value.ignore);
+	if (ignore) {
+		preferences.ignore = ignore;
+	}
+	if (typeof value.allowFallbacks === "boolean") {
+		preferences.allow_fallbacks = value.allowFallbacks;
+	}
+	if (typeof value.requireParameters === "boolean") {
+		preferences.require_parameters = value.requireParameters;
+	}
+	if (value.dataCollection === "allow" || value.dataCollection === "deny") {
+		preferences.data_collection = value.dataCollection;
+	}
+	if (value.sort === "price" || value.sort === "throughput" || value.sort === "latency") {
+		preferences.sort = value.sort;
+	}
+
+	return Object.keys(preferences).length > 0 ? preferences : undefined;
+}
+
+// Web plugin settings live in the `websearch_cited` block: `engine` ("native" or "exa"),
+// `maxResults`, a `searchPrompt` template where `{query}` is replaced, and `routing`.
+export function parseOpenRouterWebsearchConfig(
+	providerConfig: unknown,
+	model: string | undefined
+): OpenRouterWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+	const cited = isRecord(merged.websearch_cited) ? merged.websearch_cited : {};
+
+	const result: OpenRouterWebsearchConfig = {};
+
+	if (cited.engine === "native" || cited.engine === "exa") {
+		result.engine = cited.engine;
+	}
+
+	const maxResults = cited.maxResults;
+	if (
+		typeof maxResults === "number" &&
+		Number.isInteger(maxResults) &&
+		maxResults > 0 &&
+		maxResults <= OPENROUTER_MAX_RESULTS_LIMIT
+	) {
+		result.maxResults = maxResults;
+	}
+
+	if (typeof cited.searchPrompt === "string" && cited.searchPrompt.trim() !== "") {
+		result.searchPrompt = cited.searchPrompt.trim();
+	}
+
+	const routing = parseRoutingPreferences(cited.routing);
+	if (routing) {
+		result.routing = routing;
+	}
+
+	return result;
 }
 
 function getApiKey(auth: ProviderAuth): string {
 	if (auth.type !== "api") {
-		throw new Error("OpenRouter only supports API key authentication");
+		throw new WebsearchAuthError("OpenRouter only supports API key authentication");
 	}
 
 	const key = auth.key.trim();
 	if (!key) {
-		throw new Error("Missing OpenRouter API key");
+		throw new WebsearchAuthError("Missing OpenRouter API key");
 	}
 	return key;
 }
 
-function extractOutputText(payload: unknown): string | undefined {
+function extractOutputParts(payload: unknown): AnnotatedText[] {
 	if (!payload || typeof payload !== "object") {
-		return undefined;
+		return [];
 	}
 
 	const root = payload as OpenRouterResponsesBody;
+	const parts: AnnotatedText[] = [];
 
-	const direct = root.output_text;
-	if (typeof direct === "string" && direct.trim() !== "") {
-		return direct;
-	}
-
-	const output = root.output;
-	if (!Array.isArray(output) || output.length === 0) {
-		return undefined;
-	}
-
-	let combined = "";
-
-	for (const item of output) {
+	for (const item of root.output ?? []) {
 		if (item.type !== "message") {
 			continue;
 		}
@@ -94,12 +205,38 @@ function extractOutputText(payload: unknown): string | undefined {
 
 			const text = part.text;
 			if (typeof text === "string") {
-				combined += text;
+				parts.push({ text, annotations: part.annotations ?? [] });
 			}
 		}
 	}
 
-	return combined || undefined;
+	if (parts.length > 0) {
+		return parts;
+	}
+
+	const direct = root.output_text;
+	if (typeof direct === "string" && direct.trim() !== "") {
+		return [{ text: direct, annotations: [] }];
+	}
+
+	return [];
+}
+
+function extractUsage(payload: unknown): WebsearchUsage | undefined {
+	if (!payload || typeof payload !== "object") {
+		return undefined;
+	}
+
+	const usage = (payload as OpenRouterResponsesBody).usage;
+	if (!usage || typeof usage !== "object") {
+		return undefined;
+	}
+
+	return {
+		inputTokens: usage.input_tokens,
+		outputTokens: usage.output_tokens,
+		totalTokens: usage.total_tokens,
+	};
 }
 
 async function runOpenRouterWebSearch(options: {
@@ -107,7 +244,10 @@ async function runOpenRouterWebSearch(options: {
 	query: string;
 	abortSignal: AbortSignal;
 	auth: ProviderAuth;
-}): Promise<string> {
+	fetcher: WebsearchFetch;
+	config: OpenRouterWebsearchConfig;
+	constraints?: WebsearchConstraints;
+}): Promise<WebsearchResult> {
 	const normalizedModel = options.model.trim();
 	if (!normalizedModel) {
 		throw new Error("Invalid OpenRouter web search model");
@@ -119,21 +259,37 @@ async function runOpenRouterWebSearch(options: {
 	}
 
 	const apiKey = getApiKey(options.auth);
+	const { config } = options;
+	// The web plugin searches with the prompt text, so every filter and locale hint travels inside it.
+	const searchQuery = appendSiteOperators(normalizedQuery, options.constraints);
+	const prompt = appendLocaleInstructions(
+		appendDateInstruction(buildWebSearchUserPrompt(searchQuery), options.constraints),
+		options.constraints?.locale
+	);
+
+	const plugin: OpenRouterPluginWeb = {
+		id: "web",
+		search_prompt: config.searchPrompt ? config.searchPrompt.replaceAll("{query}", searchQuery) : prompt,
+	};
+	if (config.engine) {
+		plugin.engine = config.engine;
+	}
+	if (config.maxResults !== undefined) {
+		plugin.max_results = config.maxResults;
+	}
 
 	const body: OpenRouterResponsesRequest = {
 		model: normalizedModel,
-		input: buildWebSearchUserPrompt(normalizedQuery),
-		plugins: [
-			{
-				id: "web",
-				search_prompt: buildWebSearchUserPrompt(normalizedQuery),
-			},
-		],
+		input: prompt,
+		plugins: [plugin],
 		store: false,
 		stream: false,
 	};
+	if (config.routing) {
+		body.provider = config.routing;
+	}
 
-	const response = await fetch(OPENROUTER_RESPONSES_ENDPOINT, {
+	const response = await options.fetcher(OPENROUTER_RESPONSES_ENDPOINT, {
 		method: "POST",
 		headers: {
 			Authorization: `Bearer ${apiKey}`,
@@ -146,29 +302,36 @@ async function runOpenRouterWebSearch(options: {
 	if (!response.ok) {
 		const text = await response.text().catch(() => "");
 		const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
-		throw new Error(
-			`status=${response.status} | url=${OPENROUTER_RESPONSES_ENDPOINT} | requestBody=${JSON.stringify(body)}${details}`
+		throw new WebsearchHttpError(
+			`status=${response.status} | url=${OPENROUTER_RESPONSES_ENDPOINT} | requestBody=${JSON.stringify(body)}${details}`,
+			response.status
 		);
 	}
 
 	const payload: unknown = await response.json();
-	const outputText = extractOutputText(payload);
-
-	if (!outputText || !outputText.trim()) {
-		return `Web search completed for "${normalizedQuery}", but no results were returned.`;
-	}
+	const answer = buildUrlCitedAnswer(extractOutputParts(payload));
 
-	return outputText;
+	return {
+		provider: "openrouter",
+		model: normalizedModel,
+		query: normalizedQuery,
+		...answer,
+		usage: extractUsage(payload),
+	};
 }
 
-export function createOpenRouterWebsearchClient(model: string): WebsearchClient {
+export function createOpenRouterWebsearchClient(
+	model: string,
+	config: OpenRouterWebsearchConfig,
+	fetcher: WebsearchFetch
+): WebsearchClient {
 	const normalizedModel = model.trim();
 	if (!normalizedModel) {
 		throw new Error("Invalid OpenRouter web search model");
 	}
 
 	return {
-		async search(query, abortSignal, getAuth: GetAuth) {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
 			const normalizedQuery = query.trim();
 			if (!normalizedQuery) {
 				throw new Error("Query must not be empty");
@@ -176,7 +339,7 @@ export function createOpenRouterWebsearchClient(model: string): WebsearchClient
 
 			const auth = await getAuth();
 			if (!auth) {
-				throw new Error('Missing auth for provider "openrouter"');
+				throw new WebsearchAuthError('Missing auth for provider "openrouter"');
 			}
 
 			return runOpenRouterWebSearch({
@@ -184,7 +347,27 @@ export function createOpenRouterWebsearchClient(model: string): WebsearchClient
 				query: normalizedQuery,
 				abortSignal,
 				auth,
+				fetcher,
+				config,
+				constraints,
 			});
 		},
 	};
 }
+
+export const openrouterWebsearchProvider: WebsearchProvider<OpenRouterWebsearchConfig> = {
+	id: "openrouter",
+	baseURL: OPENROUTER_API_BASE,
+	authMethods: [
+		{
+			type: "api",
+			label: "OpenRouter API key",
+		},
+	],
+	parseOptions(providerConfig, model) {
+		return parseOpenRouterWebsearchConfig(providerConfig, model);
+	},
+	createClient(model, options, fetcher) {
+		return createOpenRouterWebsearchClient(model, options, fetcher);
+	},
+};
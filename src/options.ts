@@ -0,0 +1,54 @@
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return Boolean(value && typeof value === "object" && !Array.isArray(value));
+}
+
+export function readString(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+function readBaseOptions(providerConfig: Record<string, unknown>): Record<string, unknown> {
+	return isRecord(providerConfig.options) ? providerConfig.options : {};
+}
+
+function readModelOptions(providerConfig: Record<string, unknown>, model: string | undefined): Record<string, unknown> {
+	const rawModels = providerConfig.models;
+	if (!model || !isRecord(rawModels)) {
+		return {};
+	}
+	const entry = rawModels[model];
+	return isRecord(entry) && isRecord(entry.options) ? entry.options : {};
+}
+
+export function resolveProviderOptions(providerConfig: unknown, model: string | undefined): Record<string, unknown> {
+	if (!isRecord(providerConfig)) {
+		return {};
+	}
+
+	return {
+		...readBaseOptions(providerConfig),
+		...readModelOptions(providerConfig, model),
+	};
+}
+
+// For settings accepted both inside websearch_cited and as plain options. The model entry wins
+// over the provider, and at each level the websearch_cited block wins over the plain option;
+// values `parse` rejects are skipped.
+export function resolveCitedSetting<T>(
+	providerConfig: unknown,
+	model: string | undefined,
+	key: string,
+	parse: (value: unknown) => T | undefined
+): T | undefined {
+	if (!isRecord(providerConfig)) {
+		return undefined;
+	}
+
+	for (const options of [readModelOptions(providerConfig, model), readBaseOptions(providerConfig)]) {
+		const cited = isRecord(options.websearch_cited) ? options.websearch_cited : {};
+		const value = parse(cited[key]) ?? parse(options[key]);
+		if (value !== undefined) {
+			return value;
+		}
+	}
+	return undefined;
+}
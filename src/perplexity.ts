@@ -0,0 +1,231 @@
+import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
+import { buildIndexCitedAnswer } from "./citations.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { appendLanguageInstruction } from "./locale.ts";
+import type {
+	GetAuth,
+	WebsearchClient,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchProvider,
+	WebsearchRecency,
+	WebsearchResult,
+	WebsearchSource,
+} from "./types.ts";
+
+type PerplexityChatRequest = {
+	model: string;
+	messages: { role: "system" | "user"; content: string }[];
+	search_domain_filter?: string[];
+	search_recency_filter?: WebsearchRecency;
+	search_after_date_filter?: string;
+	search_before_date_filter?: string;
+	web_search_options?: { user_location: { country?: string; city?: string } };
+	stream: false;
+};
+
+type PerplexitySearchResult = {
+	title?: string;
+	url?: string;
+	date?: string | null;
+	last_updated?: string | null;
+};
+
+type PerplexityChatResponse = {
+	choices?: {
+		message?: {
+			content?: string;
+		};
+	}[];
+	citations?: string[];
+	search_results?: PerplexitySearchResult[];
+	usage?: {
+		prompt_tokens?: number;
+		completion_tokens?: number;
+		total_tokens?: number;
+	};
+};
+
+const PERPLEXITY_API_BASE = "https://api.perplexity.ai";
+const PERPLEXITY_CHAT_ENDPOINT = `${PERPLEXITY_API_BASE}/chat/completions`;
+
+const PERPLEXITY_DOMAIN_FILTER_LIMIT = 20;
+const REASONING_BLOCK = /<think>[\s\S]*?<\/think>\s*/g;
+
+function formatPerplexityDate(date: string): string {
+	const [year, month, day] = date.split("-");
+	return `${Number(month)}/${Number(day)}/${year}`;
+}
+
+function resolveApiKey(auth: ProviderAuth): string {
+	const key = auth.type === "api" ? auth.key : auth.type === "wellknown" ? auth.token : "";
+	if (!key.trim()) {
+		throw new WebsearchAuthError("Perplexity web search requires an API key");
+	}
+	return key.trim();
+}
+
+function buildSources(payload: PerplexityChatResponse): WebsearchSource[] {
+	const searchResults = (payload.search_results ?? []).filter(
+		(result): result is PerplexitySearchResult & { url: string } =>
+			typeof result?.url === "string" && result.url.trim() !== ""
+	);
+	const citationUrls = (payload.citations ?? []).filter(
+		(url): url is string => typeof url === "string" && url.trim() !== ""
+	);
+
+	const toSource = (url: string): WebsearchSource => {
+		const match = searchResults.find((result) => result.url === url);
+		const date = match?.date ?? match?.last_updated ?? undefined;
+		return {
+			title: match?.title?.trim() || undefined,
+			url,
+			date: date?.trim() || undefined,
+		};
+	};
+
+	// `citations` defines the numbering used by the inline markers; `search_results` only
+	// enriches it, so it is the fallback when the legacy field is missing.
+	if (citationUrls.length > 0) {
+		return citationUrls.map(toSource);
+	}
+	return searchResults.map((result) => toSource(result.url));
+}
+
+export function createPerplexityWebsearchResult(
+	payload: PerplexityChatResponse,
+	query: string,
+	model: string
+): WebsearchResult {
+	const content = payload.choices?.[0]?.message?.content ?? "";
+	// Sonar answers already carry `[n]` markers pointing into `citations`.
+	const raw = content.replace(REASONING_BLOCK, "").trim();
+	const answer = buildIndexCitedAnswer(raw, buildSources(payload));
+
+	return {
+		provider: "perplexity",
+		model,
+		query,
+		...answer,
+		usage: payload.usage
+			? {
+					inputTokens: payload.usage.prompt_tokens,
+					outputTokens: payload.usage.completion_tokens,
+					totalTokens: payload.usage.total_tokens,
+				}
+			: undefined,
+	};
+}
+
+async function runPerplexityWebSearch(options: {
+	model: string;
+	query: string;
+	abortSignal: AbortSignal;
+	auth: ProviderAuth;
+	fetcher: WebsearchFetch;
+	constraints?: WebsearchConstraints;
+}): Promise<WebsearchResult> {
+	const body: PerplexityChatRequest = {
+		model: options.model,
+		messages: [
+			{ role: "system", content: "Be precise and concise." },
+			{ role: "user", content: appendLanguageInstruction(options.query, options.constraints?.locale) },
+		],
+		stream: false,
+	};
+
+	const { country, city } = options.constraints?.locale ?? {};
+	if (country || city) {
+		body.web_search_options = { user_location: { country, city } };
+	}
+
+	// Sonar takes either an allow-list or a "-domain" deny-list, up to 20 entries.
+	const { includeDomains, excludeDomains } = options.constraints ?? {};
+	if (includeDomains?.length) {
+		body.search_domain_filter = includeDomains.slice(0, PERPLEXITY_DOMAIN_FILTER_LIMIT);
+	} else if (excludeDomains?.length) {
+		body.search_domain_filter = excludeDomains.slice(0, PERPLEXITY_DOMAIN_FILTER_LIMIT).map((domain) => `-${domain}`);
+	}
+
+	// Recency presets map one-to-one; explicit dates use Sonar's M/D/YYYY format.
+	const { recency, since, until } = options.constraints ?? {};
+	if (recency) {
+		body.search_recency_filter = recency;
+	} else {
+		if (since) {
+			body.search_after_date_filter = formatPerplexityDate(since);
+		}
+		if (until) {
+			body.search_before_date_filter = formatPerplexityDate(until);
+		}
+	}
+
+	const response = await options.fetcher(PERPLEXITY_CHAT_ENDPOINT, {
+		method: "POST",
+		headers: {
+			Authorization: `Bearer ${resolveApiKey(options.auth)}`,
+			"Content-Type": "application/json",
+		},
+		body: JSON.stringify(body),
+		signal: options.abortSignal,
+	});
+
+	if (!response.ok) {
+		const text = await response.text().catch(() => "");
+		const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
+		throw new WebsearchHttpError(
+			`status=${response.status} | url=${PERPLEXITY_CHAT_ENDPOINT} | requestBody=${JSON.stringify(body)}${details}`,
+			response.status
+		);
+	}
+
+	const payload = (await response.json()) as PerplexityChatResponse;
+	return createPerplexityWebsearchResult(payload, options.query, options.model);
+}
+
+export function createPerplexityWebsearchClient(model: string, fetcher: WebsearchFetch): WebsearchClient {
+	const normalizedModel = model.trim();
+	if (!normalizedModel) {
+		throw new Error("Invalid Perplexity web search model");
+	}
+
+	return {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
+			const normalizedQuery = query.trim();
+			if (!normalizedQuery) {
+				throw new Error("Query must not be empty");
+			}
+
+			const auth = await getAuth();
+			if (!auth) {
+				throw new WebsearchAuthError('Missing auth for provider "perplexity"');
+			}
+
+			return runPerplexityWebSearch({
+				model: normalizedModel,
+				query: normalizedQuery,
+				abortSignal,
+				auth,
+				fetcher,
+				constraints,
+			});
+		},
+	};
+}
+
+export const perplexityWebsearchProvider: WebsearchProvider = {
+	id: "perplexity",
+	baseURL: PERPLEXITY_API_BASE,
+	authMethods: [
+		{
+			type: "api",
+			label: "Perplexity API key",
+		},
+	],
+	parseOptions() {
+		return undefined;
+	},
+	createClient(model, _options, fetcher) {
+		return createPerplexityWebsearchClient(model, fetcher);
+	},
+};
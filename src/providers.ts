@@ -0,0 +1,34 @@
+import { anthropicWebsearchProvider } from "./anthropic.ts";
+import { azureWebsearchProvider } from "./azure.ts";
+import { googleWebsearchProvider } from "./google.ts";
+import { openaiWebsearchProvider } from "./openai.ts";
+import { openrouterWebsearchProvider } from "./openrouter.ts";
+import { perplexityWebsearchProvider } from "./perplexity.ts";
+import { braveWebsearchProvider, exaWebsearchProvider, tavilyWebsearchProvider } from "./search_apis.ts";
+import { searxngWebsearchProvider } from "./searxng.ts";
+import type { WebsearchProvider } from "./types.ts";
+import { vertexWebsearchProvider } from "./vertex.ts";
+import { xaiWebsearchProvider } from "./xai.ts";
+
+const WEBSEARCH_PROVIDERS: readonly WebsearchProvider[] = [
+	googleWebsearchProvider,
+	openaiWebsearchProvider,
+	openrouterWebsearchProvider,
+	anthropicWebsearchProvider,
+	perplexityWebsearchProvider,
+	xaiWebsearchProvider,
+	braveWebsearchProvider,
+	tavilyWebsearchProvider,
+	exaWebsearchProvider,
+	searxngWebsearchProvider,
+	azureWebsearchProvider,
+	vertexWebsearchProvider,
+];
+
+export function findWebsearchProvider(providerID: string): WebsearchProvider | undefined {
+	return WEBSEARCH_PROVIDERS.find((provider) => provider.id === providerID);
+}
+
+export function listWebsearchProviderIDs(): string[] {
+	return WEBSEARCH_PROVIDERS.map((provider) => provider.id);
+}
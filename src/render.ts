@@ -0,0 +1,54 @@
+import type { WebsearchCitation, WebsearchResult, WebsearchSource } from "./types.ts";
+
+export function renderWebsearchResult(result: WebsearchResult): string {
+	const notices = result.notices ?? [];
+	const header = notices.length > 0 ? `${notices.map((notice) => `> ${notice}`).join("\n")}\n\n` : "";
+
+	if (!result.text.trim()) {
+		return `${header}No search results or information found for query: "${result.query}"`;
+	}
+
+	if (result.sources.length === 0) {
+		return `${header}${result.text}`;
+	}
+
+	const text = insertCitationMarkers(result.text, result.citations);
+	return `${header}${text}\n\nSources:\n${formatSourceLines(result.sources).join("\n")}`;
+}
+
+function formatCitationMarker(sourceIndices: number[]): string {
+	const uniqueSorted = Array.from(new Set(sourceIndices)).sort((a, b) => a - b);
+	return uniqueSorted.map((idx) => `[${idx + 1}]`).join("");
+}
+
+function insertCitationMarkers(text: string, citations: WebsearchCitation[]): string {
+	const insertions = citations
+		.filter((citation) => citation.sourceIndices.length > 0)
+		.map((citation) => ({
+			index: Math.max(0, Math.min(citation.endIndex, text.length)),
+			marker: formatCitationMarker(citation.sourceIndices),
+		}))
+		.sort((a, b) => a.index - b.index);
+
+	if (insertions.length === 0) {
+		return text;
+	}
+
+	let rendered = "";
+	let lastIndex = 0;
+	for (const insertion of insertions) {
+		rendered += text.slice(lastIndex, insertion.index) + insertion.marker;
+		lastIndex = insertion.index;
+	}
+
+	return rendered + text.slice(lastIndex);
+}
+
+function formatSourceLines(sources: WebsearchSource[]): string[] {
+	return sources.map((source, index) => {
+		const title = source.title || "Untitled";
+		const url = source.url || "No URI";
+		const date = source.date ? ` - ${source.date}` : "";
+		return `[${index + 1}] ${title} (${url})${date}`;
+	});
+}
@@ -0,0 +1,317 @@
+import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
+import { formatDate } from "./dates.ts";
+import { appendSiteOperators } from "./domains.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { countryName, primaryLanguage } from "./locale.ts";
+import {
+	filterRetrievedResults,
+	parseRetrieveWebsearchConfig,
+	type RetrievedResult,
+	type RetrieveWebsearchConfig,
+	summarizeRetrievedResults,
+} from "./summarize.ts";
+import type {
+	FindAuth,
+	GetAuth,
+	WebsearchClient,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchProvider,
+	WebsearchRecency,
+} from "./types.ts";
+
+type SearchApiRequest = {
+	query: string;
+	apiKey: string;
+	maxResults: number;
+	constraints?: WebsearchConstraints;
+	abortSignal: AbortSignal;
+	fetcher: WebsearchFetch;
+};
+
+type SearchApiEngine = {
+	id: string;
+	baseURL: string;
+	label: string;
+	search(request: SearchApiRequest): Promise<RetrievedResult[]>;
+};
+
+type BraveSearchResponse = {
+	web?: {
+		results?: {
+			title?: string;
+			url?: string;
+			description?: string;
+			page_age?: string;
+		}[];
+	};
+};
+
+type TavilySearchResponse = {
+	results?: {
+		title?: string;
+		url?: string;
+		content?: string;
+		published_date?: string;
+	}[];
+};
+
+type ExaSearchResponse = {
+	results?: {
+		title?: string | null;
+		url?: string;
+		publishedDate?: string | null;
+		highlights?: string[];
+		text?: string;
+	}[];
+};
+
+const BRAVE_API_BASE = "https://api.search.brave.com/res/v1";
+const BRAVE_SEARCH_ENDPOINT = `${BRAVE_API_BASE}/web/search`;
+const TAVILY_API_BASE = "https://api.tavily.com";
+const TAVILY_SEARCH_ENDPOINT = `${TAVILY_API_BASE}/search`;
+const EXA_API_BASE = "https://api.exa.ai";
+const EXA_SEARCH_ENDPOINT = `${EXA_API_BASE}/search`;
+const BRAVE_FRESHNESS: Record<WebsearchRecency, string> = { day: "pd", week: "pw", month: "pm", year: "py" };
+
+// Brave takes a preset or a closed "YYYY-MM-DDtoYYYY-MM-DD" range.
+function buildBraveFreshness(constraints: WebsearchConstraints | undefined): string | undefined {
+	const { recency, since, until } = constraints ?? {};
+	if (recency) {
+		return BRAVE_FRESHNESS[recency];
+	}
+	if (!since && !until) {
+		return undefined;
+	}
+	return `${since ?? "1970-01-01"}to${until ?? formatDate(new Date())}`;
+}
+
+function clean(value: string | null | undefined): string | undefined {
+	const trimmed = value?.replace(/<[^>]+>/g, "").trim();
+	return trimmed ? trimmed : undefined;
+}
+
+function toRetrievedResult(result: {
+	title?: string | null;
+	url?: string;
+	snippet?: string;
+	date?: string | null;
+}): RetrievedResult[] {
+	const url = result.url?.trim();
+	if (!url) {
+		return [];
+	}
+	return [{ title: clean(result.title), url, snippet: clean(result.snippet), date: clean(result.date) }];
+}
+
+async function readSearchResponse<T>(response: Response, url: string): Promise<T> {
+	if (!response.ok) {
+		const text = await response.text().catch(() => "");
+		const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
+		throw new WebsearchHttpError(`status=${response.status} | url=${url}${details}`, response.status);
+	}
+	return (await response.json()) as T;
+}
+
+const braveSearchEngine: SearchApiEngine = {
+	id: "brave",
+	baseURL: BRAVE_API_BASE,
+	label: "Brave Search API key",
+	async search(request) {
+		// Brave has no domain parameters; its query syntax understands site operators.
+		const params = new URLSearchParams({
+			q: appendSiteOperators(request.query, request.constraints),
+			count: String(request.maxResults),
+		});
+		const freshness = buildBraveFreshness(request.constraints);
+		if (freshness) {
+			params.set("freshness", freshness);
+		}
+		const { country, language } = request.constraints?.locale ?? {};
+		if (country) {
+			params.set("country", country);
+		}
+		if (language) {
+			params.set("search_lang", primaryLanguage(language));
+		}
+		const response = await request.fetcher(`${BRAVE_SEARCH_ENDPOINT}?${params.toString()}`, {
+			method: "GET",
+			headers: {
+				Accept: "application/json",
+				"X-Subscription-Token": request.apiKey,
+			},
+			signal: request.abortSignal,
+		});
+		const payload = await readSearchResponse<BraveSearchResponse>(response, BRAVE_SEARCH_ENDPOINT);
+		return (payload.web?.results ?? []).flatMap((result) =>
+			toRetrievedResult({ title: result.title, url: result.url, snippet: result.description, date: result.page_age })
+		);
+	},
+};
+
+const tavilySearchEngine: SearchApiEngine = {
+	id: "tavily",
+	baseURL: TAVILY_API_BASE,
+	label: "Tavily API key",
+	async search(request) {
+		const response = await request.fetcher(TAVILY_SEARCH_ENDPOINT, {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${request.apiKey}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				query: request.query,
+				max_results: request.maxResults,
+				include_domains: request.constraints?.includeDomains,
+				exclude_domains: request.constraints?.excludeDomains,
+				time_range: request.constraints?.recency,
+				start_date: request.constraints?.recency ? undefined : request.constraints?.since,
+				end_date: request.constraints?.until,
+				// Tavily boosts results from a country given by its English name.
+				country: request.constraints?.locale?.country && countryName(request.constraints.locale.country).toLowerCase(),
+			}),
+			signal: request.abortSignal,
+		});
+		const payload = await readSearchResponse<TavilySearchResponse>(response, TAVILY_SEARCH_ENDPOINT);
+		return (payload.results ?? []).flatMap((result) =>
+			toRetrievedResult({
+				title: result.title,
+				url: result.url,
+				snippet: result.content,
+				date: result.published_date,
+			})
+		);
+	},
+};
+
+const exaSearchEngine: SearchApiEngine = {
+	id: "exa",
+	baseURL: EXA_API_BASE,
+	label: "Exa API key",
+	async search(request) {
+		const response = await request.fetcher(EXA_SEARCH_ENDPOINT, {
+			method: "POST",
+			headers: {
+				"x-api-key": request.apiKey,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				query: request.query,
+				numResults: request.maxResults,
+				includeDomains: request.constraints?.includeDomains,
+				excludeDomains: request.constraints?.excludeDomains,
+				startPublishedDate: request.constraints?.since && `${request.constraints.since}T00:00:00.000Z`,
+				endPublishedDate: request.constraints?.until && `${request.constraints.until}T23:59:59.999Z`,
+				userLocation: request.constraints?.locale?.country,
+				contents: { highlights: true },
+			}),
+			signal: request.abortSignal,
+		});
+		const payload = await readSearchResponse<ExaSearchResponse>(response, EXA_SEARCH_ENDPOINT);
+		return (payload.results ?? []).flatMap((result) =>
+			toRetrievedResult({
+				title: result.title,
+				url: result.url,
+				snippet: result.highlights?.length ? result.highlights.join(" … ") : result.text?.slice(0, 500),
+				date: result.publishedDate?.slice(0, 10),
+			})
+		);
+	},
+};
+
+function resolveApiKey(engine: SearchApiEngine, auth: ProviderAuth): string {
+	const key = auth.type === "api" ? auth.key : auth.type === "wellknown" ? auth.token : "";
+	if (!key.trim()) {
+		throw new WebsearchAuthError(`Missing ${engine.label}`);
+	}
+	return key.trim();
+}
+
+function createSearchApiClient(
+	engine: SearchApiEngine,
+	model: string,
+	config: RetrieveWebsearchConfig,
+	fetcher: WebsearchFetch,
+	findAuth: FindAuth
+): WebsearchClient {
+	const normalizedModel = model.trim();
+	if (!normalizedModel) {
+		throw new Error(`Invalid ${engine.id} summarization model`);
+	}
+
+	return {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
+			const normalizedQuery = query.trim();
+			if (!normalizedQuery) {
+				throw new Error("Query must not be empty");
+			}
+
+			// Configured models are checked up front; this catches a `model` argument whose options lack one.
+			const summarizerError = validateSummarizer(engine, config);
+			if (summarizerError) {
+				throw new Error(summarizerError);
+			}
+
+			const auth = await getAuth();
+			if (!auth) {
+				throw new WebsearchAuthError(`Missing auth for provider "${engine.id}"`);
+			}
+
+			const results = await engine.search({
+				query: normalizedQuery,
+				apiKey: resolveApiKey(engine, auth),
+				maxResults: config.maxResults,
+				constraints,
+				abortSignal,
+				fetcher,
+			});
+
+			return summarizeRetrievedResults({
+				provider: engine.id,
+				model: normalizedModel,
+				query: normalizedQuery,
+				results: filterRetrievedResults(results, constraints).slice(0, config.maxResults),
+				summarizer: config.summarizer,
+				findAuth,
+				locale: constraints?.locale,
+				abortSignal,
+				fetcher,
+			});
+		},
+	};
+}
+
+// Without a summarizer the configured model would go unused; snippets alone must be asked for.
+function validateSummarizer(engine: SearchApiEngine, config: RetrieveWebsearchConfig): string | undefined {
+	if (config.summarizer !== undefined) {
+		return undefined;
+	}
+	return `Missing or invalid websearch_cited summarizer for provider "${engine.id}". Set summarizer.baseURL to an OpenAI-compatible endpoint, or summarizer to false to return the ranked snippets.`;
+}
+
+function createSearchApiProvider(engine: SearchApiEngine): WebsearchProvider<RetrieveWebsearchConfig> {
+	return {
+		id: engine.id,
+		baseURL: engine.baseURL,
+		authMethods: [
+			{
+				type: "api",
+				label: engine.label,
+			},
+		],
+		parseOptions(providerConfig, model) {
+			return parseRetrieveWebsearchConfig(providerConfig, model);
+		},
+		validateOptions(options) {
+			return validateSummarizer(engine, options);
+		},
+		createClient(model, options, fetcher, findAuth) {
+			return createSearchApiClient(engine, model, options, fetcher, findAuth);
+		},
+	};
+}
+
+export const braveWebsearchProvider = createSearchApiProvider(braveSearchEngine);
+export const tavilyWebsearchProvider = createSearchApiProvider(tavilySearchEngine);
+export const exaWebsearchProvider = createSearchApiProvider(exaSearchEngine);
@@ -0,0 +1,147 @@
+import { appendSiteOperators } from "./domains.ts";
+import { WebsearchHttpError } from "./errors.ts";
+import { isRecord, resolveProviderOptions } from "./options.ts";
+import {
+	filterRetrievedResults,
+	parseRetrieveWebsearchConfig,
+	type RetrievedResult,
+	type RetrieveWebsearchConfig,
+	summarizeRetrievedResults,
+} from "./summarize.ts";
+import type { FindAuth, WebsearchClient, WebsearchFetch, WebsearchProvider, WebsearchRecency } from "./types.ts";
+
+export type SearxngWebsearchConfig = RetrieveWebsearchConfig & {
+	baseURL?: string;
+};
+
+type SearxngSearchResponse = {
+	results?: {
+		title?: string;
+		url?: string;
+		content?: string;
+		publishedDate?: string | null;
+	}[];
+};
+
+export function parseSearxngWebsearchConfig(
+	providerConfig: unknown,
+	model: string | undefined
+): SearxngWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+	const cited = isRecord(merged.websearch_cited) ? merged.websearch_cited : {};
+	const rawBaseURL = typeof cited.baseURL === "string" ? cited.baseURL : merged.baseURL;
+	const baseURL = typeof rawBaseURL === "string" ? rawBaseURL.trim().replace(/\/+$/, "") : "";
+
+	const result: SearxngWebsearchConfig = parseRetrieveWebsearchConfig(providerConfig, model);
+	if (baseURL) {
+		result.baseURL = baseURL;
+	}
+	return result;
+}
+
+async function querySearxng(options: {
+	baseURL: string;
+	query: string;
+	recency?: WebsearchRecency;
+	language?: string;
+	abortSignal: AbortSignal;
+	fetcher: WebsearchFetch;
+}): Promise<RetrievedResult[]> {
+	const url = `${options.baseURL}/search`;
+	const params = new URLSearchParams({ q: options.query, format: "json" });
+	// SearXNG only knows recency presets; explicit dates are applied to the dated results afterwards.
+	if (options.recency) {
+		params.set("time_range", options.recency);
+	}
+	if (options.language) {
+		params.set("language", options.language);
+	}
+
+	const response = await options.fetcher(`${url}?${params.toString()}`, {
+		method: "GET",
+		headers: { Accept: "application/json" },
+		signal: options.abortSignal,
+	});
+
+	if (!response.ok) {
+		const text = await response.text().catch(() => "");
+		const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
+		// SearXNG answers 403 when the JSON format is not enabled in settings.yml.
+		const hint = response.status === 403 ? " | hint=enable `json` under search.formats in settings.yml" : "";
+		throw new WebsearchHttpError(`status=${response.status} | url=${url}${hint}${details}`, response.status);
+	}
+
+	const payload = (await response.json()) as SearxngSearchResponse;
+	return (payload.results ?? []).flatMap((result) => {
+		const resultUrl = result.url?.trim();
+		if (!resultUrl) {
+			return [];
+		}
+		return [
+			{
+				title: result.title?.trim() || undefined,
+				url: resultUrl,
+				snippet: result.content?.trim() || undefined,
+				date: result.publishedDate?.slice(0, 10) || undefined,
+			},
+		];
+	});
+}
+
+export function createSearxngWebsearchClient(
+	model: string,
+	config: SearxngWebsearchConfig,
+	fetcher: WebsearchFetch,
+	findAuth?: FindAuth
+): WebsearchClient {
+	const normalizedModel = model.trim();
+	if (!normalizedModel) {
+		throw new Error("Invalid SearXNG summarization model");
+	}
+
+	return {
+		async search(query, abortSignal, _getAuth, constraints) {
+			const normalizedQuery = query.trim();
+			if (!normalizedQuery) {
+				throw new Error("Query must not be empty");
+			}
+
+			const baseURL = config.baseURL;
+			if (!baseURL) {
+				throw new Error('Missing websearch_cited baseURL for provider "searxng"');
+			}
+
+			const results = await querySearxng({
+				baseURL,
+				query: appendSiteOperators(normalizedQuery, constraints),
+				recency: constraints?.recency,
+				language: constraints?.locale?.language,
+				abortSignal,
+				fetcher,
+			});
+
+			return summarizeRetrievedResults({
+				provider: "searxng",
+				model: normalizedModel,
+				query: normalizedQuery,
+				results: filterRetrievedResults(results, constraints).slice(0, config.maxResults),
+				summarizer: config.summarizer,
+				findAuth,
+				locale: constraints?.locale,
+				abortSignal,
+				fetcher,
+			});
+		},
+	};
+}
+
+export const searxngWebsearchProvider: WebsearchProvider<SearxngWebsearchConfig> = {
+	id: "searxng",
+	authMethods: [],
+	parseOptions(providerConfig, model) {
+		return parseSearxngWebsearchConfig(providerConfig, model);
+	},
+	createClient(model, options, fetcher, findAuth) {
+		return createSearxngWebsearchClient(model, options, fetcher, findAuth);
+	},
+};
@@ -0,0 +1,234 @@
+import { buildIndexCitedAnswer } from "./citations.ts";
+import { isWithinDateRange } from "./dates.ts";
+import { isAllowedUrl } from "./domains.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { appendLanguageInstruction } from "./locale.ts";
+import { isRecord, readString, resolveProviderOptions } from "./options.ts";
+import type {
+	FindAuth,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchLocale,
+	WebsearchResult,
+	WebsearchSource,
+} from "./types.ts";
+
+// A ranked hit from a classic search API, before any model has looked at it.
+export type RetrievedResult = {
+	title?: string;
+	url: string;
+	snippet?: string;
+	date?: string;
+};
+
+// Any OpenAI-compatible chat completions endpoint, e.g. https://api.openai.com/v1 or a local Ollama.
+// `provider` reuses the API key OpenCode stores for that provider instead of an inline `apiKey`.
+export type SummarizerConfig = {
+	baseURL: string;
+	apiKey?: string;
+	provider?: string;
+};
+
+// `false` is an explicit opt-out: the ranked snippets are returned without a summarizing model.
+export type RetrieveWebsearchConfig = {
+	maxResults: number;
+	summarizer?: SummarizerConfig | false;
+};
+
+type ChatCompletionsResponse = {
+	choices?: {
+		message?: {
+			content?: string;
+		};
+	}[];
+	usage?: {
+		prompt_tokens?: number;
+		completion_tokens?: number;
+		total_tokens?: number;
+	};
+};
+
+export const DEFAULT_MAX_RESULTS = 8;
+const MAX_RESULTS_LIMIT = 20;
+
+const SUMMARIZER_SYSTEM_PROMPT = [
+	"You write concise, factual digests of web search results.",
+	"Use only the numbered search results you are given; never add outside knowledge.",
+	"Cite every claim with the number of the supporting result in square brackets, e.g. [2] or [1][3].",
+	"Do not write URLs or a Sources list.",
+].join(" ");
+
+export function parseSummarizerConfig(value: unknown): SummarizerConfig | undefined {
+	if (!isRecord(value)) {
+		return undefined;
+	}
+
+	const baseURL = typeof value.baseURL === "string" ? value.baseURL.trim().replace(/\/+$/, "") : "";
+	if (!baseURL) {
+		return undefined;
+	}
+
+	const result: SummarizerConfig = { baseURL };
+	const apiKey = readString(value.apiKey);
+	if (apiKey) {
+		result.apiKey = apiKey;
+	}
+	const provider = readString(value.provider);
+	if (provider) {
+		result.provider = provider;
+	}
+	return result;
+}
+
+async function resolveSummarizerKey(
+	summarizer: SummarizerConfig,
+	findAuth: FindAuth | undefined
+): Promise<string | undefined> {
+	if (summarizer.apiKey || !summarizer.provider) {
+		return summarizer.apiKey;
+	}
+	const auth = await findAuth?.(summarizer.provider)?.();
+	const key = auth?.type === "api" ? auth.key : auth?.type === "wellknown" ? auth.token : "";
+	if (!key.trim()) {
+		throw new WebsearchAuthError(`Missing API key for summarizer provider "${summarizer.provider}"`);
+	}
+	return key.trim();
+}
+
+export function parseRetrieveWebsearchConfig(
+	providerConfig: unknown,
+	model: string | undefined
+): RetrieveWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+	const cited = isRecord(merged.websearch_cited) ? merged.websearch_cited : {};
+
+	const maxResults = cited.maxResults;
+	const result: RetrieveWebsearchConfig = {
+		maxResults:
+			typeof maxResults === "number" &&
+			Number.isInteger(maxResults) &&
+			maxResults > 0 &&
+			maxResults <= MAX_RESULTS_LIMIT
+				? maxResults
+				: DEFAULT_MAX_RESULTS,
+	};
+
+	const summarizer = cited.summarizer === false ? false : parseSummarizerConfig(cited.summarizer);
+	if (summarizer !== undefined) {
+		result.summarizer = summarizer;
+	}
+
+	return result;
+}
+
+function toSources(results: RetrievedResult[]): WebsearchSource[] {
+	return results.map((result) => ({ title: result.title, url: result.url, date: result.date }));
+}
+
+function buildSummarizerUserPrompt(query: string, results: RetrievedResult[]): string {
+	const blocks = results.map((result, index) => {
+		const lines = [`[${index + 1}] ${result.title || "Untitled"}`, `URL: ${result.url}`];
+		if (result.date) {
+			lines.push(`Published: ${result.date}`);
+		}
+		if (result.snippet) {
+			lines.push(result.snippet);
+		}
+		return lines.join("\n");
+	});
+	return `Query: ${query}\n\nSearch results:\n\n${blocks.join("\n\n")}`;
+}
+
+// Without a summarizer the ranked snippets are the answer, one cited line per result.
+function listRetrievedResults(results: RetrievedResult[]): Pick<WebsearchResult, "text" | "citations"> {
+	let text = "";
+	const citations: WebsearchResult["citations"] = [];
+	results.forEach((result, index) => {
+		const line = `- ${result.title || result.url}${result.snippet ? `: ${result.snippet}` : ""}`;
+		text += index > 0 ? `\n${line}` : line;
+		citations.push({ startIndex: text.length - line.length, endIndex: text.length, sourceIndices: [index] });
+	});
+	return { text, citations };
+}
+
+// Search engines apply filters loosely; drop what they let through before it reaches the summarizer.
+export function filterRetrievedResults(
+	results: RetrievedResult[],
+	constraints: WebsearchConstraints | undefined
+): RetrievedResult[] {
+	if (!constraints) {
+		return results;
+	}
+	return results.filter(
+		(result) => isAllowedUrl(result.url, constraints) && isWithinDateRange(result.date, constraints)
+	);
+}
+
+export async function summarizeRetrievedResults(options: {
+	provider: string;
+	model: string;
+	query: string;
+	results: RetrievedResult[];
+	summarizer?: SummarizerConfig | false;
+	findAuth?: FindAuth;
+	locale?: WebsearchLocale;
+	abortSignal: AbortSignal;
+	fetcher: WebsearchFetch;
+}): Promise<WebsearchResult> {
+	const sources = toSources(options.results);
+	const base = { provider: options.provider, model: options.model, query: options.query };
+
+	if (options.results.length === 0) {
+		return { ...base, text: "", citations: [], sources: [] };
+	}
+
+	if (!options.summarizer) {
+		return { ...base, ...listRetrievedResults(options.results), sources };
+	}
+
+	const url = `${options.summarizer.baseURL}/chat/completions`;
+	const body = {
+		model: options.model,
+		messages: [
+			{ role: "system", content: SUMMARIZER_SYSTEM_PROMPT },
+			{
+				role: "user",
+				content: appendLanguageInstruction(buildSummarizerUserPrompt(options.query, options.results), options.locale),
+			},
+		],
+		stream: false,
+	};
+	const headers: Record<string, string> = { "Content-Type": "application/json" };
+	const apiKey = await resolveSummarizerKey(options.summarizer, options.findAuth);
+	if (apiKey) {
+		headers.Authorization = `Bearer ${apiKey}`;
+	}
+
+	const response = await options.fetcher(url, {
+		method: "POST",
+		headers,
+		body: JSON.stringify(body),
+		signal: options.abortSignal,
+	});
+
+	if (!response.ok) {
+		const text = await response.text().catch(() => "");
+		const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
+		throw new WebsearchHttpError(`status=${response.status} | url=${url}${details}`, response.status);
+	}
+
+	const payload = (await response.json()) as ChatCompletionsResponse;
+	const content = payload.choices?.[0]?.message?.content ?? "";
+
+	return {
+		...base,
+		...buildIndexCitedAnswer(content.trim(), sources),
+		usage: payload.usage
+			? {
+					inputTokens: payload.usage.prompt_tokens,
+					outputTokens: payload.usage.completion_tokens,
+					totalTokens: payload.usage.total_tokens,
+				}
+			: undefined,
+	};
+}
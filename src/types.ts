@@ -1,7 +1,89 @@
+import type { AuthHook } from "@opencode-ai/plugin";
 import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
 
 export type GetAuth = () => Promise<ProviderAuth | undefined>;
 
+// Looks up the auth OpenCode stores for another provider, e.g. for a summarizer reusing an API key.
+export type FindAuth = (providerID: string) => GetAuth | undefined;
+
+export type WebsearchFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export type ProviderAuthMethod = AuthHook["methods"][number];
+
+export type WebsearchSource = {
+	title?: string;
+	url?: string;
+	// Publication or last-updated date as reported by the provider, e.g. "2025-01-15".
+	date?: string;
+	// Site the source belongs to when `url` is a provider redirect rather than the page itself.
+	domain?: string;
+};
+
+export type WebsearchCitation = {
+	// Offsets into `text`, in UTF-16 code units (plain JavaScript string indices).
+	startIndex: number;
+	endIndex: number;
+	// Zero-based positions in `sources`.
+	sourceIndices: number[];
+};
+
+export type WebsearchUsage = {
+	inputTokens?: number;
+	outputTokens?: number;
+	totalTokens?: number;
+};
+
+export type WebsearchResult = {
+	provider: string;
+	model: string;
+	query: string;
+	text: string;
+	citations: WebsearchCitation[];
+	sources: WebsearchSource[];
+	usage?: WebsearchUsage;
+	// Short lines shown above the answer, e.g. which provider answered after a failover.
+	notices?: string[];
+};
+
+// Approximate user location and answer language; `country` is ISO 3166-1 alpha-2, `language` BCP 47.
+export type WebsearchLocale = {
+	country?: string;
+	city?: string;
+	timezone?: string;
+	language?: string;
+};
+
+export type WebsearchRecency = "day" | "week" | "month" | "year";
+
+// Per-call search restrictions. Clients pass what their API supports natively; the plugin
+// enforces domains on the returned sources, and clients fold dates into the prompt otherwise.
+export type WebsearchConstraints = {
+	includeDomains?: string[];
+	excludeDomains?: string[];
+	// Dates are YYYY-MM-DD. `recency` comes with the `since` date it resolves to.
+	recency?: WebsearchRecency;
+	since?: string;
+	until?: string;
+	locale?: WebsearchLocale;
+};
+
 export interface WebsearchClient {
-	search(query: string, abortSignal: AbortSignal, getAuth: GetAuth): Promise<string>;
+	search(
+		query: string,
+		abortSignal: AbortSignal,
+		getAuth: GetAuth,
+		constraints?: WebsearchConstraints
+	): Promise<WebsearchResult>;
+}
+
+export interface WebsearchProvider<TOptions = unknown> {
+	id: string;
+	// Public API root. Requests under it are rerouted when the provider's `options.baseURL` is set.
+	baseURL?: string;
+	// Empty for self-hosted backends that need no stored credentials.
+	authMethods: ProviderAuthMethod[];
+	parseOptions(providerConfig: unknown, model: string): TOptions;
+	// Returns a configuration error for options the provider cannot search with.
+	validateOptions?(options: TOptions): string | undefined;
+	createClient(model: string, options: TOptions, fetcher: WebsearchFetch, findAuth: FindAuth): WebsearchClient;
 }
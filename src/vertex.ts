@@ -0,0 +1,244 @@
+import { createSign } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { appendDateInstruction } from "./dates.ts";
+import { appendSiteOperators } from "./domains.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { createGeminiWebsearchResult } from "./google.ts";
+import { appendLocaleInstructions } from "./locale.ts";
+import { isRecord, readString, resolveProviderOptions } from "./options.ts";
+import type { WebsearchClient, WebsearchFetch, WebsearchProvider } from "./types.ts";
+
+export type VertexWebsearchConfig = {
+	project?: string;
+	location: string;
+	credentialsPath?: string;
+	baseURL?: string;
+};
+
+type ServiceAccountCredentials = {
+	client_email: string;
+	private_key: string;
+	private_key_id?: string;
+	project_id?: string;
+	token_uri?: string;
+};
+
+const DEFAULT_VERTEX_LOCATION = "us-central1";
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+const JWT_LIFETIME_SECONDS = 3600;
+const REFRESH_BUFFER_MS = 60_000;
+
+const tokenCache = new Map<string, { accessToken: string; expiresAt: number }>();
+
+// `project` and `location` are the same options OpenCode's google-vertex provider reads;
+// the service-account file comes from `websearch_cited.credentials` or GOOGLE_APPLICATION_CREDENTIALS.
+export function parseVertexWebsearchConfig(providerConfig: unknown, model: string | undefined): VertexWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+	const cited = isRecord(merged.websearch_cited) ? merged.websearch_cited : {};
+
+	const result: VertexWebsearchConfig = {
+		location: readString(merged.location) ?? process.env.GOOGLE_CLOUD_LOCATION ?? DEFAULT_VERTEX_LOCATION,
+	};
+
+	const project = readString(merged.project) ?? readString(process.env.GOOGLE_CLOUD_PROJECT);
+	if (project) {
+		result.project = project;
+	}
+
+	// Same shape as the AI SDK's Vertex baseURL: everything up to `/models/<model>`.
+	const baseURL = readString(merged.baseURL)?.replace(/\/+$/, "");
+	if (baseURL) {
+		result.baseURL = baseURL;
+	}
+
+	const credentialsPath = readString(cited.credentials) ?? readString(process.env.GOOGLE_APPLICATION_CREDENTIALS);
+	if (credentialsPath) {
+		result.credentialsPath = credentialsPath;
+	}
+
+	return result;
+}
+
+async function loadServiceAccount(credentialsPath: string): Promise<ServiceAccountCredentials> {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(await readFile(credentialsPath, "utf8"));
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		throw new WebsearchAuthError(`Unable to read service account credentials at ${credentialsPath}: ${reason}`);
+	}
+
+	if (
+		!isRecord(parsed) ||
+		parsed.type !== "service_account" ||
+		typeof parsed.client_email !== "string" ||
+		typeof parsed.private_key !== "string"
+	) {
+		throw new WebsearchAuthError(`Invalid service account credentials at ${credentialsPath}`);
+	}
+
+	return parsed as ServiceAccountCredentials;
+}
+
+function encodeSegment(value: unknown): string {
+	return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signServiceAccountJwt(credentials: ServiceAccountCredentials, tokenUri: string, now: number): string {
+	const issuedAt = Math.floor(now / 1000);
+	const header = {
+		alg: "RS256",
+		typ: "JWT",
+		...(credentials.private_key_id ? { kid: credentials.private_key_id } : {}),
+	};
+	const claims = {
+		iss: credentials.client_email,
+		scope: CLOUD_PLATFORM_SCOPE,
+		aud: tokenUri,
+		iat: issuedAt,
+		exp: issuedAt + JWT_LIFETIME_SECONDS,
+	};
+
+	const unsigned = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+	const signature = createSign("RSA-SHA256").update(unsigned).sign(credentials.private_key, "base64url");
+	return `${unsigned}.${signature}`;
+}
+
+async function getServiceAccountAccessToken(
+	credentials: ServiceAccountCredentials,
+	fetcher: WebsearchFetch
+): Promise<string> {
+	const cached = tokenCache.get(credentials.client_email);
+	if (cached && cached.expiresAt > Date.now() + REFRESH_BUFFER_MS) {
+		return cached.accessToken;
+	}
+
+	const tokenUri = credentials.token_uri ?? DEFAULT_TOKEN_URI;
+	const requestTime = Date.now();
+	const response = await fetcher(tokenUri, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/x-www-form-urlencoded",
+		},
+		body: new URLSearchParams({
+			grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+			assertion: signServiceAccountJwt(credentials, tokenUri, requestTime),
+		}),
+	});
+
+	if (!response.ok) {
+		const text = await response.text().catch(() => "");
+		throw new WebsearchAuthError(
+			text.trim() !== "" ? text.trim() : `Service account token request failed with status ${response.status}`
+		);
+	}
+
+	const payload = (await response.json()) as { access_token?: string; expires_in?: number };
+	if (!payload.access_token) {
+		throw new WebsearchAuthError("Service account token response missing access_token");
+	}
+	const expiresIn =
+		typeof payload.expires_in === "number" && Number.isFinite(payload.expires_in) ? payload.expires_in : 3600;
+	tokenCache.set(credentials.client_email, {
+		accessToken: payload.access_token,
+		expiresAt: requestTime + expiresIn * 1000,
+	});
+	return payload.access_token;
+}
+
+function buildVertexUrl(config: VertexWebsearchConfig, project: string, model: string): string {
+	const { location } = config;
+	const host = location === "global" ? "aiplatform.googleapis.com" : `${location}-aiplatform.googleapis.com`;
+	const base =
+		config.baseURL ??
+		`https://${host}/v1/projects/${encodeURIComponent(project)}/locations/${encodeURIComponent(location)}/publishers/google`;
+	return `${base}/models/${encodeURIComponent(model)}:generateContent`;
+}
+
+export function createVertexWebsearchClient(
+	model: string,
+	config: VertexWebsearchConfig,
+	fetcher: WebsearchFetch
+): WebsearchClient {
+	const normalizedModel = model.trim();
+	if (!normalizedModel) {
+		throw new Error("Invalid Vertex AI web search model");
+	}
+
+	return {
+		async search(query, abortSignal, _getAuth, constraints) {
+			const normalizedQuery = query.trim();
+			if (!normalizedQuery) {
+				throw new Error("Query must not be empty");
+			}
+
+			if (!config.credentialsPath) {
+				throw new WebsearchAuthError(
+					'Missing service account credentials for provider "google-vertex". Set websearch_cited.credentials or GOOGLE_APPLICATION_CREDENTIALS.'
+				);
+			}
+
+			const credentials = await loadServiceAccount(config.credentialsPath);
+			const project = config.project ?? credentials.project_id;
+			if (!project) {
+				throw new Error('Missing Vertex AI project. Set options.project for provider "google-vertex".');
+			}
+
+			const accessToken = await getServiceAccountAccessToken(credentials, fetcher);
+			const url = buildVertexUrl(config, project, normalizedModel);
+			// Vertex grounding takes a block-list natively; allow-lists become site operators.
+			const googleSearch = constraints?.excludeDomains?.length ? { excludeDomains: constraints.excludeDomains } : {};
+			const response = await fetcher(url, {
+				method: "POST",
+				headers: {
+					Authorization: `Bearer ${accessToken}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					contents: [
+						{
+							role: "user",
+							parts: [
+								{
+									text: appendLocaleInstructions(
+										appendDateInstruction(
+											appendSiteOperators(normalizedQuery, { includeDomains: constraints?.includeDomains }),
+											constraints
+										),
+										constraints?.locale
+									),
+								},
+							],
+						},
+					],
+					tools: [{ googleSearch }],
+				}),
+				signal: abortSignal,
+			});
+
+			if (!response.ok) {
+				const text = await response.text().catch(() => "");
+				const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
+				throw new WebsearchHttpError(`status=${response.status} | url=${url}${details}`, response.status);
+			}
+
+			const payload = (await response.json()) as Parameters<typeof createGeminiWebsearchResult>[0];
+			return {
+				...createGeminiWebsearchResult(payload, normalizedQuery, normalizedModel),
+				provider: "google-vertex",
+			};
+		},
+	};
+}
+
+export const vertexWebsearchProvider: WebsearchProvider<VertexWebsearchConfig> = {
+	id: "google-vertex",
+	authMethods: [],
+	parseOptions(providerConfig, model) {
+		return parseVertexWebsearchConfig(providerConfig, model);
+	},
+	createClient(model, options, fetcher) {
+		return createVertexWebsearchClient(model, options, fetcher);
+	},
+};
@@ -0,0 +1,288 @@
+import type { Auth as ProviderAuth } from "@opencode-ai/sdk";
+import { buildUrlCitedAnswer } from "./citations.ts";
+import { hasDomainConstraints } from "./domains.ts";
+import { WebsearchAuthError, WebsearchHttpError } from "./errors.ts";
+import { appendLanguageInstruction } from "./locale.ts";
+import { isRecord, resolveProviderOptions } from "./options.ts";
+import type {
+	GetAuth,
+	WebsearchClient,
+	WebsearchConstraints,
+	WebsearchFetch,
+	WebsearchProvider,
+	WebsearchResult,
+} from "./types.ts";
+
+export type XaiSearchSourceType = "web" | "news" | "x";
+
+export type XaiWebsearchConfig = {
+	mode: "auto" | "on";
+	sources?: XaiSearchSourceType[];
+	fromDate?: string;
+	toDate?: string;
+	maxSearchResults?: number;
+};
+
+type XaiSearchSource = {
+	type: XaiSearchSourceType;
+	allowed_websites?: string[];
+	excluded_websites?: string[];
+	country?: string;
+};
+
+type XaiSearchParameters = {
+	mode: "auto" | "on";
+	return_citations: true;
+	sources?: XaiSearchSource[];
+	from_date?: string;
+	to_date?: string;
+	max_search_results?: number;
+};
+
+type XaiChatRequest = {
+	model: string;
+	messages: { role: "system" | "user"; content: string }[];
+	search_parameters: XaiSearchParameters;
+	stream: false;
+};
+
+type XaiChatResponse = {
+	choices?: {
+		message?: {
+			content?: string;
+		};
+	}[];
+	citations?: string[];
+	usage?: {
+		prompt_tokens?: number;
+		completion_tokens?: number;
+		total_tokens?: number;
+	};
+};
+
+const XAI_API_BASE = "https://api.x.ai/v1";
+const XAI_CHAT_ENDPOINT = `${XAI_API_BASE}/chat/completions`;
+const XAI_SOURCE_TYPES: readonly XaiSearchSourceType[] = ["web", "news", "x"];
+const XAI_MAX_SEARCH_RESULTS_LIMIT = 50;
+const XAI_WEBSITE_FILTER_LIMIT = 5;
+// xAI's own default when `sources` is omitted; spelled out so domain filters can be attached.
+const XAI_DEFAULT_SOURCES: readonly XaiSearchSourceType[] = ["web", "x"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function resolveApiKey(auth: ProviderAuth): string {
+	const key = auth.type === "api" ? auth.key : auth.type === "wellknown" ? auth.token : "";
+	if (!key.trim()) {
+		throw new WebsearchAuthError("xAI web search requires an API key");
+	}
+	return key.trim();
+}
+
+function readIsoDate(value: unknown): string | undefined {
+	return typeof value === "string" && ISO_DATE.test(value.trim()) ? value.trim() : undefined;
+}
+
+// Live search settings live in the `websearch_cited.search` block, e.g.
+// { "mode": "on", "sources": ["web", "x"], "fromDate": "2025-01-01", "maxSearchResults": 10 }.
+export function parseXaiWebsearchConfig(providerConfig: unknown, model: string | undefined): XaiWebsearchConfig {
+	const merged = resolveProviderOptions(providerConfig, model);
+	const cited = isRecord(merged.websearch_cited) ? merged.websearch_cited : {};
+	const search = isRecord(cited.search) ? cited.search : {};
+
+	const result: XaiWebsearchConfig = { mode: search.mode === "auto" ? "auto" : "on" };
+
+	if (Array.isArray(search.sources)) {
+		const sources = search.sources.filter((value): value is XaiSearchSourceType =>
+			XAI_SOURCE_TYPES.includes(value as XaiSearchSourceType)
+		);
+		if (sources.length > 0) {
+			result.sources = Array.from(new Set(sources));
+		}
+	}
+
+	const fromDate = readIsoDate(search.fromDate);
+	if (fromDate) {
+		result.fromDate = fromDate;
+	}
+
+	const toDate = readIsoDate(search.toDate);
+	if (toDate) {
+		result.toDate = toDate;
+	}
+
+	const maxSearchResults = search.maxSearchResults;
+	if (
+		typeof maxSearchResults === "number" &&
+		Number.isInteger(maxSearchResults) &&
+		maxSearchResults > 0 &&
+		maxSearchResults <= XAI_MAX_SEARCH_RESULTS_LIMIT
+	) {
+		result.maxSearchResults = maxSearchResults;
+	}
+
+	return result;
+}
+
+// Web sources take up to five allowed or excluded sites (not both); news only takes exclusions.
+// Both take the user's country; X posts have neither.
+function buildSearchSource(type: XaiSearchSourceType, constraints: WebsearchConstraints | undefined): XaiSearchSource {
+	const source: XaiSearchSource = { type };
+	const { includeDomains, excludeDomains } = constraints ?? {};
+	if (type === "web" && includeDomains?.length) {
+		source.allowed_websites = includeDomains.slice(0, XAI_WEBSITE_FILTER_LIMIT);
+	} else if (type !== "x" && excludeDomains?.length) {
+		source.excluded_websites = excludeDomains.slice(0, XAI_WEBSITE_FILTER_LIMIT);
+	}
+	if (type !== "x" && constraints?.locale?.country) {
+		source.country = constraints.locale.country;
+	}
+	return source;
+}
+
+function buildSearchParameters(
+	config: XaiWebsearchConfig,
+	constraints: WebsearchConstraints | undefined
+): XaiSearchParameters {
+	const parameters: XaiSearchParameters = { mode: config.mode, return_citations: true };
+	const needsSources = hasDomainConstraints(constraints) || Boolean(constraints?.locale?.country);
+	const sources = config.sources ?? (needsSources ? XAI_DEFAULT_SOURCES : undefined);
+	if (sources) {
+		parameters.sources = sources.map((type) => buildSearchSource(type, constraints));
+	}
+	// A date range on the call takes precedence over the configured one.
+	const fromDate = constraints?.since ?? config.fromDate;
+	if (fromDate) {
+		parameters.from_date = fromDate;
+	}
+	const toDate = constraints?.until ?? config.toDate;
+	if (toDate) {
+		parameters.to_date = toDate;
+	}
+	if (config.maxSearchResults !== undefined) {
+		parameters.max_search_results = config.maxSearchResults;
+	}
+	return parameters;
+}
+
+// Live search returns citations as a flat URL list without positions, so they become
+// the Sources list while the answer text is kept as written.
+export function createXaiWebsearchResult(payload: XaiChatResponse, query: string, model: string): WebsearchResult {
+	const content = payload.choices?.[0]?.message?.content ?? "";
+	const citationUrls = (payload.citations ?? []).filter(
+		(url): url is string => typeof url === "string" && url.trim() !== ""
+	);
+	const answer = buildUrlCitedAnswer(
+		[{ text: content.trim(), annotations: [] }],
+		citationUrls.map((url) => ({ url: url.trim() }))
+	);
+
+	return {
+		provider: "xai",
+		model,
+		query,
+		...answer,
+		usage: payload.usage
+			? {
+					inputTokens: payload.usage.prompt_tokens,
+					outputTokens: payload.usage.completion_tokens,
+					totalTokens: payload.usage.total_tokens,
+				}
+			: undefined,
+	};
+}
+
+async function runXaiWebSearch(options: {
+	model: string;
+	query: string;
+	abortSignal: AbortSignal;
+	auth: ProviderAuth;
+	fetcher: WebsearchFetch;
+	constraints?: WebsearchConstraints;
+	config: XaiWebsearchConfig;
+}): Promise<WebsearchResult> {
+	const body: XaiChatRequest = {
+		model: options.model,
+		messages: [
+			{
+				role: "system",
+				content: "Answer the user's web search query with a concise digest grounded in the live search results.",
+			},
+			{ role: "user", content: appendLanguageInstruction(options.query, options.constraints?.locale) },
+		],
+		search_parameters: buildSearchParameters(options.config, options.constraints),
+		stream: false,
+	};
+
+	const response = await options.fetcher(XAI_CHAT_ENDPOINT, {
+		method: "POST",
+		headers: {
+			Authorization: `Bearer ${resolveApiKey(options.auth)}`,
+			"Content-Type": "application/json",
+		},
+		body: JSON.stringify(body),
+		signal: options.abortSignal,
+	});
+
+	if (!response.ok) {
+		const text = await response.text().catch(() => "");
+		const details = text.trim() !== "" ? ` | responseBody=${text}` : "";
+		throw new WebsearchHttpError(
+			`status=${response.status} | url=${XAI_CHAT_ENDPOINT} | requestBody=${JSON.stringify(body)}${details}`,
+			response.status
+		);
+	}
+
+	const payload = (await response.json()) as XaiChatResponse;
+	return createXaiWebsearchResult(payload, options.query, options.model);
+}
+
+export function createXaiWebsearchClient(
+	model: string,
+	config: XaiWebsearchConfig,
+	fetcher: WebsearchFetch
+): WebsearchClient {
+	const normalizedModel = model.trim();
+	if (!normalizedModel) {
+		throw new Error("Invalid xAI web search model");
+	}
+
+	return {
+		async search(query, abortSignal, getAuth: GetAuth, constraints) {
+			const normalizedQuery = query.trim();
+			if (!normalizedQuery) {
+				throw new Error("Query must not be empty");
+			}
+
+			const auth = await getAuth();
+			if (!auth) {
+				throw new WebsearchAuthError('Missing auth for provider "xai"');
+			}
+
+			return runXaiWebSearch({
+				model: normalizedModel,
+				query: normalizedQuery,
+				abortSignal,
+				auth,
+				fetcher,
+				config,
+				constraints,
+			});
+		},
+	};
+}
+
+export const xaiWebsearchProvider: WebsearchProvider<XaiWebsearchConfig> = {
+	id: "xai",
+	baseURL: XAI_API_BASE,
+	authMethods: [
+		{
+			type: "api",
+			label: "xAI API key",
+		},
+	],
+	parseOptions(providerConfig, model) {
+		return parseXaiWebsearchConfig(providerConfig, model);
+	},
+	createClient(model, options, fetcher) {
+		return createXaiWebsearchClient(model, options, fetcher);
+	},
+};
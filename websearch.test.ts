@@ -1,8 +1,15 @@
-import { afterEach, beforeEach, describe, expect, it, vi } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, setSystemTime, vi } from "bun:test";
+import { createVerify, generateKeyPairSync } from "node:crypto";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import type { Plugin, PluginInput } from "@opencode-ai/plugin";
 import type { Config, Provider, Auth as ProviderAuth } from "@opencode-ai/sdk";
 
-import { formatWebSearchResponse } from "./src/google.ts";
+import { clearDiskCache, createDiskResultCache, readDiskCacheStats } from "./src/disk_cache.ts";
+import { createGeminiWebsearchResult, formatWebSearchResponse } from "./src/google.ts";
+import { renderWebsearchResult } from "./src/render.ts";
+import type { WebsearchResult } from "./src/types.ts";
 
 const WEBSEARCH_CONFIG: Config = {
 	provider: {
@@ -126,6 +133,111 @@ describe("formatWebSearchResponse", () => {
 	});
 });
 
+describe("createGeminiWebsearchResult", () => {
+	it("maps grounding metadata onto string offsets, sources and usage", () => {
+		const response: WebSearchGenerateContentResponse = {
+			candidates: [
+				{
+					content: { role: "model", parts: [{ text: "こんにちは! Web" }] },
+					groundingMetadata: {
+						groundingChunks: [{ web: { title: "Greeting", uri: "https://example.test/greeting" } }],
+						groundingSupports: [{ segment: { startIndex: 0, endIndex: 16 }, groundingChunkIndices: [0, 0] }],
+					},
+				},
+			],
+			usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 5, totalTokenCount: 8 },
+		};
+
+		const result = createGeminiWebsearchResult(response, "greeting", "gemini-2.5-flash");
+
+		expect(result).toEqual({
+			provider: "google",
+			model: "gemini-2.5-flash",
+			query: "greeting",
+			text: "こんにちは! Web",
+			citations: [{ startIndex: 0, endIndex: 6, sourceIndices: [0] }],
+			sources: [{ title: "Greeting", url: "https://example.test/greeting" }],
+			usage: { inputTokens: 3, outputTokens: 5, totalTokens: 8 },
+		});
+	});
+});
+
+describe("renderWebsearchResult", () => {
+	it("inserts markers at citation ends and appends sources", () => {
+		const result = createWebsearchResult({
+			text: "First claim. Second claim.",
+			citations: [
+				{ startIndex: 13, endIndex: 26, sourceIndices: [1, 0] },
+				{ startIndex: 0, endIndex: 12, sourceIndices: [0] },
+			],
+			sources: [{ title: "One", url: "https://example.test/one" }, { url: "https://example.test/two" }],
+		});
+
+		expect(renderWebsearchResult(result)).toBe(
+			"First claim.[1] Second claim.[1][2]\n\nSources:\n[1] One (https://example.test/one)\n[2] Untitled (https://example.test/two)"
+		);
+	});
+
+	it("returns the text unchanged when there are no sources", () => {
+		const result = createWebsearchResult({
+			text: "Plain answer.",
+			citations: [{ startIndex: 0, endIndex: 5, sourceIndices: [0] }],
+		});
+
+		expect(renderWebsearchResult(result)).toBe("Plain answer.");
+	});
+
+	it("returns fallback when the answer is empty", () => {
+		expect(renderWebsearchResult(createWebsearchResult({ text: "  " }))).toBe(
+			'No search results or information found for query: "render query"'
+		);
+	});
+});
+
+describe("createDiskResultCache", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-cache-"));
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("round-trips results and expires them after the TTL", async () => {
+		const cache = createDiskResultCache({ dir, ttlMs: 1_000, maxEntries: 10, maxBytes: 1_000_000 });
+		const result = createWebsearchResult({ text: "Stored answer" });
+
+		await cache.set("fresh", result);
+		await cache.set("stale", result, Date.now() - 5_000);
+
+		expect((await cache.get("fresh"))?.result).toEqual(result);
+		expect(await cache.get("stale")).toBeUndefined();
+		expect(await cache.get("missing")).toBeUndefined();
+	});
+
+	it("evicts the oldest entries beyond the size limits and reports stats", async () => {
+		const cache = createDiskResultCache({ dir, ttlMs: 60_000, maxEntries: 2, maxBytes: 1_000_000 });
+
+		await cache.set("one", createWebsearchResult({ text: "one" }));
+		await Bun.sleep(5);
+		await cache.set("two", createWebsearchResult({ text: "two" }));
+		await Bun.sleep(5);
+		await cache.set("three", createWebsearchResult({ text: "three" }));
+
+		expect(await cache.get("one")).toBeUndefined();
+		expect((await cache.get("three"))?.result.text).toBe("three");
+
+		const stats = await readDiskCacheStats(dir);
+		expect(stats.entries).toBe(2);
+		expect(stats.bytes).toBeGreaterThan(0);
+
+		expect(await clearDiskCache(dir)).toBe(2);
+		expect((await readDiskCacheStats(dir)).entries).toBe(0);
+	});
+});
+
 describe("WebsearchCitedPlugin", () => {
 	let fetchMock: ReturnType<typeof vi.spyOn<typeof globalThis, "fetch">>;
 
@@ -213,13 +325,32 @@ describe("WebsearchCitedPlugin", () => {
 		expect(fetchMock).not.toHaveBeenCalled();
 	});
 
+	it("lists registered providers when the configured provider is unsupported", async () => {
+		const { tool } = await createEnv({
+			provider: {
+				mistral: {
+					options: {
+						websearch_cited: { model: "mistral-large-latest" },
+					},
+				},
+			},
+		} as Config);
+		const context = createToolContext();
+
+		await expectThrowMessage(
+			() => tool.execute({ query: "opencode" }, context),
+			'Unsupported provider "mistral" for websearch_cited. Supported providers: google, openai, openrouter, anthropic, perplexity, xai, brave, tavily, exa, searxng, azure, google-vertex.'
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
 	it("rejects extra arguments", async () => {
 		const { tool } = await createEnv();
 		const context = createToolContext();
 
 		await expectThrowMessage(
 			() => tool.execute({ query: "sample", format: "markdown" } as never, context),
-			"Unknown argument(s): format, only 'query' supported"
+			"Unknown argument(s): format, only 'query', 'provider', 'model', 'include_domains', 'exclude_domains', 'recency', 'since', 'until', 'country', 'city', 'timezone', 'language' supported"
 		);
 		expect(fetchMock).not.toHaveBeenCalled();
 	});
@@ -256,6 +387,41 @@ describe("WebsearchCitedPlugin", () => {
 		expect(fetchMock).toHaveBeenCalledTimes(1);
 	});
 
+	it("filters Gemini grounding redirects by the domain they point to", async () => {
+		const redirect = (id: string) => `https://vertexaisearch.cloud.google.com/grounding-api-redirect/${id}`;
+		const groundedResponse = () =>
+			createFetchResponse(
+				createResponse({
+					content: { role: "model", parts: [{ text: "asyncio runs coroutines. It has tasks." }] },
+					groundingMetadata: {
+						groundingChunks: [
+							{ web: { title: "docs.python.org", uri: redirect("AUZIYQabc") } },
+							{ web: { title: "realpython.com", uri: redirect("AUZIYQdef") } },
+						],
+						groundingSupports: [
+							{ segment: { startIndex: 0, endIndex: 24 }, groundingChunkIndices: [0] },
+							{ segment: { startIndex: 25, endIndex: 38 }, groundingChunkIndices: [1] },
+						],
+					},
+				})
+			);
+		fetchMock.mockResolvedValueOnce(groundedResponse()).mockResolvedValueOnce(groundedResponse());
+
+		const { hooks, tool } = await createEnv(WEBSEARCH_CONFIG);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		const context = createToolContext();
+
+		const excluded = await tool.execute({ query: "asyncio", exclude_domains: ["docs.python.org"] }, context);
+		expect(excluded).toBe(
+			`> Dropped 1 source outside the allowed domains.\n\nasyncio runs coroutines. It has tasks.[1]\n\nSources:\n[1] realpython.com (${redirect("AUZIYQdef")})`
+		);
+
+		const included = await tool.execute({ query: "asyncio", include_domains: ["python.org"] }, context);
+		expect(included).toBe(
+			`> Dropped 1 source outside the allowed domains.\n\nasyncio runs coroutines.[1] It has tasks.\n\nSources:\n[1] docs.python.org (${redirect("AUZIYQabc")})`
+		);
+	});
+
 	it("returns provider failure details", async () => {
 		const failure = new Error("API Failure");
 		fetchMock.mockRejectedValueOnce(failure);
@@ -713,174 +879,1968 @@ describe("WebsearchCitedPlugin", () => {
 		expect(headers.Authorization).toBe("Bearer test-api-key");
 	});
 
-	it("uses the OpenRouter responses endpoint when configured and auth is present", async () => {
-		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenRouterResponseBody("Search result body")));
+	it("routes API requests through the configured baseURL with extra headers", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Gateway body")));
 
 		const { hooks, tool } = await createEnv({
 			provider: {
-				openrouter: {
+				openai: {
 					options: {
-						websearch_cited: { model: "openrouter/auto" },
+						baseURL: "https://gateway.example.test/v1/openai/",
+						headers: { "cf-aig-authorization": "Bearer gateway-token" },
+						websearch_cited: { model: "gpt-5.2" },
 					},
 				},
 			},
 		} as Config);
-
-		await invokeAuthLoader(hooks, "openrouter", {
-			type: "api",
-			key: "test-openrouter-key",
-		});
-
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
 		const context = createToolContext();
 
-		const result = await tool.execute({ query: "openrouter web search" }, context);
-
-		expect(result).toContain("Search result body");
-		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const result = await tool.execute({ query: "gateway search" }, context);
 
+		expect(result).toBe("Gateway body");
 		const [url, init] = fetchMock.mock.calls[0] ?? [];
-		expect(typeof url === "string" ? url : "").toContain("https://openrouter.ai/api/v1/responses");
-
+		expect(url).toBe("https://gateway.example.test/v1/openai/responses");
 		const headers = (init?.headers ?? {}) as Record<string, string>;
-		expect(headers.Authorization).toBe("Bearer test-openrouter-key");
-
-		const bodyText = typeof init?.body === "string" ? init.body : "";
-		const parsed = JSON.parse(bodyText) as Record<string, unknown>;
-		expect(parsed.model).toBe("openrouter/auto");
-		expect(parsed.store).toBe(false);
-		expect(parsed.stream).toBe(false);
-
-		const plugins = parsed.plugins;
-		expect(Array.isArray(plugins)).toBe(true);
-		const plugin0 =
-			Array.isArray(plugins) && plugins[0] && typeof plugins[0] === "object"
-				? (plugins[0] as Record<string, unknown>)
-				: undefined;
-		expect(plugin0?.id).toBe("web");
-
-		const searchPromptValue = plugin0?.search_prompt;
-		expect(typeof searchPromptValue === "string" ? searchPromptValue : "").toContain(
-			'perform web search on "openrouter web search"'
-		);
+		expect(headers.authorization).toBe("Bearer test-api-key");
+		expect(headers["cf-aig-authorization"]).toBe("Bearer gateway-token");
 	});
 
-	it("selects the first configured provider in order", async () => {
-		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Search result body")));
+	it("lets configured headers replace same-named client headers", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Gateway body")));
 
 		const { hooks, tool } = await createEnv({
 			provider: {
 				openai: {
 					options: {
-						websearch_cited: { model: "gpt-4o-search-preview" },
+						headers: { Authorization: "Bearer gateway", "X-Trace": "on" },
+						websearch_cited: { model: "gpt-5.2" },
 					},
 				},
-				google: {
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "sk-user" });
+
+		await tool.execute({ query: "gateway search" }, createToolContext());
+
+		const [, init] = fetchMock.mock.calls[0] ?? [];
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers.authorization).toBe("Bearer gateway");
+		expect(headers.Authorization).toBeUndefined();
+		expect(headers["x-trace"]).toBe("on");
+	});
+
+	it("leaves requests outside the provider API untouched by baseURL and headers", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Codex body")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
 					options: {
-						websearch_cited: { model: "gemini-2.5-flash" },
+						baseURL: "https://gateway.example.test/v1/openai",
+						headers: { "cf-aig-authorization": "Bearer gateway-token" },
+						websearch_cited: { model: "gpt-5.2" },
 					},
 				},
 			},
 		} as Config);
-
 		await invokeAuthLoader(hooks, "openai", {
 			type: "oauth",
 			access: "test-access-token",
 			refresh: "test-refresh-token",
 			expires: Date.now() + 60_000,
 		});
-
 		const context = createToolContext();
 
-		const result = await tool.execute({ query: "openai web search" }, context);
+		await tool.execute({ query: "codex search" }, context);
 
-		expect(result).toContain("Search result body");
-		expect(fetchMock).toHaveBeenCalledTimes(1);
-		const [url] = fetchMock.mock.calls[0] ?? [];
-		expect(typeof url === "string" ? url : "").toContain("/codex/responses");
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://chatgpt.com/backend-api/codex/responses");
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers["cf-aig-authorization"]).toBeUndefined();
 	});
 
-	it("index exports are valid plugin init functions", async () => {
-		const mod = await importIndexModule();
-		const entries = Object.entries(mod);
-		expect(entries.length).toBeGreaterThan(0);
-		for (const [name, value] of entries) {
-			expect(name.trim()).not.toBe("");
-			expect(typeof value).toBe("function");
-		}
-	});
+	it("sends requests through HTTPS_PROXY unless NO_PROXY matches, trusting the extra CA bundle", async () => {
+		const dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-ca-"));
+		const caFile = path.join(dir, "corp-ca.pem");
+		await writeFile(caFile, "-----BEGIN CERTIFICATE-----\ncorp\n-----END CERTIFICATE-----\n");
+		const previous = { HTTPS_PROXY: process.env.HTTPS_PROXY, NO_PROXY: process.env.NO_PROXY };
+		process.env.HTTPS_PROXY = "http://proxy.corp.test:3128";
+		process.env.NO_PROXY = "localhost,.internal.test";
+		fetchMock
+			.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Proxied body")))
+			.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Direct body")));
 
-	it("initializes all exports like opencode", async () => {
-		const mod = await importIndexModule();
-		const input = createPluginInput();
-		const hooks: unknown[] = [];
-		for (const [name, value] of Object.entries(mod)) {
-			if (typeof value !== "function") {
-				throw new Error(`Invalid plugin export "${name}"`);
+		try {
+			const proxied = await createEnv({
+				provider: {
+					openai: { options: { websearch_cited: { model: "gpt-5.2", caFile } } },
+				},
+			} as Config);
+			await invokeAuthLoader(proxied.hooks, "openai", { type: "api", key: "test-api-key" });
+			expect(await proxied.tool.execute({ query: "proxied" }, createToolContext())).toBe("Proxied body");
+
+			const [, proxiedInit] = fetchMock.mock.calls[0] ?? [];
+			const bunInit = proxiedInit as BunFetchRequestInit;
+			expect(bunInit.proxy).toBe("http://proxy.corp.test:3128");
+			const ca = bunInit.tls?.ca;
+			expect(Array.isArray(ca) && ca.length > 1).toBe(true);
+			expect(Array.isArray(ca) ? ca.at(-1) : undefined).toContain("corp");
+
+			const direct = await createEnv({
+				provider: {
+					openai: {
+						options: {
+							baseURL: "https://llm.internal.test/v1",
+							websearch_cited: { model: "gpt-5.2" },
+						},
+					},
+				},
+			} as Config);
+			await invokeAuthLoader(direct.hooks, "openai", { type: "api", key: "test-api-key" });
+			expect(await direct.tool.execute({ query: "direct" }, createToolContext())).toBe("Direct body");
+
+			const [directUrl, directInit] = fetchMock.mock.calls[1] ?? [];
+			expect(directUrl).toBe("https://llm.internal.test/v1/responses");
+			expect((directInit as BunFetchRequestInit).proxy).toBeUndefined();
+		} finally {
+			for (const [name, value] of Object.entries(previous)) {
+				if (value === undefined) {
+					delete process.env[name];
+				} else {
+					process.env[name] = value;
+				}
 			}
-			hooks.push(await (value as Plugin)(input));
-		}
-		for (const hook of hooks) {
-			expect(hook && typeof hook === "object").toBe(true);
+			await rm(dir, { recursive: true, force: true });
 		}
 	});
-});
 
-type CandidateInput = NonNullable<WebSearchGenerateContentResponse["candidates"]>[number];
+	it("builds OpenAI citations from url_citation annotations and search sources", async () => {
+		const text = "Bun 1.2 ships S3 support ([bun.sh](https://bun.sh/blog)). Node 22 is LTS.";
+		const linkStart = text.indexOf(" ([bun.sh]") + 1;
+		const linkEnd = text.indexOf("))") + 2;
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				output: [
+					{
+						type: "web_search_call",
+						action: {
+							type: "search",
+							sources: [
+								{ type: "url", url: "https://nodejs.org/en/about/previous-releases" },
+								{ type: "url", url: "https://bun.sh/blog" },
+							],
+						},
+					},
+					{
+						type: "message",
+						role: "assistant",
+						content: [
+							{
+								type: "output_text",
+								text,
+								annotations: [
+									{
+										type: "url_citation",
+										url: "https://bun.sh/blog",
+										title: "Bun Blog",
+										start_index: linkStart,
+										end_index: linkEnd,
+									},
+									{
+										type: "url_citation",
+										url: "https://nodejs.org/en/about/previous-releases",
+										title: "Node.js Releases",
+										start_index: linkEnd + 2,
+										end_index: text.length,
+									},
+								],
+							},
+						],
+					},
+				],
+			})
+		);
 
-async function expectThrowMessage(fn: () => Promise<unknown>, match: string) {
-	try {
-		await fn();
-		throw new Error("Expected function to throw");
-	} catch (error) {
-		const message = error instanceof Error ? error.message : String(error);
-		expect(message).toContain(match);
-	}
-}
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		const context = createToolContext();
 
-type Hooks = Awaited<ReturnType<Plugin>>;
+		const result = await tool.execute({ query: "bun and node" }, context);
 
-type Tool = {
-	execute: (args: unknown, context: unknown) => Promise<string>;
-};
+		expect(result).toBe(
+			"Bun 1.2 ships S3 support[1]. Node 22 is LTS.[2]\n\nSources:\n[1] Bun Blog (https://bun.sh/blog)\n[2] Node.js Releases (https://nodejs.org/en/about/previous-releases)"
+		);
 
-function isTool(value: unknown): value is Tool {
-	if (!value || typeof value !== "object") {
-		return false;
-	}
-	const execute = (value as Record<string, unknown>).execute;
-	return typeof execute === "function";
-}
+		const [, init] = fetchMock.mock.calls[0] ?? [];
+		const bodyText = typeof init?.body === "string" ? init.body : "";
+		expect(bodyText).not.toContain("Sources list of URLs");
+	});
 
-function createPluginInput(): PluginInput {
-	return {} as PluginInput;
-}
+	it("passes allowed domains to OpenAI and drops sources from excluded domains", async () => {
+		const text = "Bun 1.2 ships S3 support. Node 22 is LTS.";
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				output: [
+					{
+						type: "message",
+						role: "assistant",
+						content: [
+							{
+								type: "output_text",
+								text,
+								annotations: [
+									{
+										type: "url_citation",
+										url: "https://bun.sh/blog",
+										title: "Bun Blog",
+										start_index: 0,
+										end_index: text.indexOf(".", 10) + 1,
+									},
+									{
+										type: "url_citation",
+										url: "https://nodejs.org/en/about/previous-releases",
+										title: "Node.js Releases",
+										start_index: text.indexOf("Node"),
+										end_index: text.length,
+									},
+								],
+							},
+						],
+					},
+				],
+			})
+		);
 
-async function importIndexModule(): Promise<Record<string, unknown>> {
-	importCounter += 1;
-	const mod = (await import(`./index?agent_test=${importCounter}`)) as unknown;
-	if (!mod || typeof mod !== "object") {
-		throw new Error("Invalid plugin module");
-	}
-	return mod as Record<string, unknown>;
-}
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2", excludeDomains: ["nodejs.org"] },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		const context = createToolContext();
 
-async function createEnv(config?: Config): Promise<{ hooks: Hooks[]; tool: Tool }> {
-	const mod = await importIndexModule();
-	const input = createPluginInput();
-	const hooks: Hooks[] = [];
+		const result = await tool.execute(
+			{ query: "bun and node", include_domains: ["https://bun.sh/", "*.nodejs.org"] },
+			context
+		);
 
-	for (const [name, value] of Object.entries(mod)) {
-		if (typeof value !== "function") {
-			throw new Error(`Invalid plugin export "${name}"`);
-		}
-		hooks.push(await (value as Plugin)(input));
-	}
+		expect(result).toBe(
+			"> Dropped 1 source outside the allowed domains.\n\nBun 1.2 ships S3 support.[1] Node 22 is LTS.\n\nSources:\n[1] Bun Blog (https://bun.sh/blog)"
+		);
 
-	if (config) {
-		for (const hook of hooks) {
-			const configHook = (hook as Record<string, unknown>).config;
-			if (typeof configHook === "function") {
-				await (configHook as (c: Config) => Promise<unknown>)(config);
+		const [, init] = fetchMock.mock.calls[0] ?? [];
+		const body = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as { tools: unknown[] };
+		expect(body.tools[0]).toMatchObject({ filters: { allowed_domains: ["bun.sh", "nodejs.org"] } });
+	});
+
+	it("folds a recency window into the OpenAI prompt as a start date", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Bun 1.3 is out.")));
+		setSystemTime(new Date("2026-10-19T12:00:00Z"));
+
+		try {
+			const { hooks, tool } = await createEnv({
+				provider: {
+					openai: {
+						options: {
+							websearch_cited: { model: "gpt-5.2" },
+						},
+					},
+				},
+			} as Config);
+			await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+			const context = createToolContext();
+
+			const result = await tool.execute({ query: "bun release notes", recency: "week" }, context);
+
+			expect(result).toBe("> Limited to results from the past week (since 2026-10-12).\n\nBun 1.3 is out.");
+			const [, init] = fetchMock.mock.calls[0] ?? [];
+			const bodyText = typeof init?.body === "string" ? init.body : "";
+			expect(bodyText).toContain("Only use sources published on or after 2026-10-12.");
+		} finally {
+			setSystemTime();
+		}
+	});
+
+	it("sends the user location to OpenAI and asks for an answer in the requested language", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Die Regeln gelten ab 2026.")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2", country: "de", timezone: "Europe/Berlin", language: "not a tag!" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "e-scooter rules", city: "Munich", language: "de" }, context);
+
+		expect(result).toBe("Die Regeln gelten ab 2026.");
+		const [, init] = fetchMock.mock.calls[0] ?? [];
+		const body = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as {
+			tools: unknown[];
+			input: { content: { text: string }[] }[];
+		};
+		expect(body.tools[0]).toEqual({
+			type: "web_search",
+			user_location: { type: "approximate", country: "DE", city: "Munich", timezone: "Europe/Berlin" },
+		});
+		expect(body.input[0]?.content[0]?.text).toEndWith("\n\nWrite the answer in German.");
+	});
+
+	it("configures the OpenAI web_search tool from the shared settings, resolved per model", async () => {
+		fetchMock
+			.mockResolvedValueOnce(
+				createFetchResponse({
+					output: [
+						{
+							type: "web_search_call",
+							action: {
+								type: "search",
+								sources: [
+									{ type: "url", url: "https://docs.python.org/3/library/asyncio.html" },
+									{ type: "url", url: "https://example.com/asyncio" },
+								],
+							},
+						},
+						{
+							type: "message",
+							role: "assistant",
+							content: [{ type: "output_text", text: "Deep answer", annotations: [] }],
+						},
+					],
+				})
+			)
+			.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Quick answer")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: {
+							model: "gpt-5.2",
+							searchContextSize: "low",
+							includeDomains: ["https://docs.python.org/3/", "not a domain"],
+							country: "de",
+							region: "Bavaria",
+							timezone: "Nowhere/Invalid",
+						},
+					},
+					models: {
+						"gpt-5.2": { options: { searchContextSize: "high" } },
+						"gpt-5-mini": { options: { searchContextSize: "huge", includeDomains: ["python.org"], city: "Munich" } },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		const context = createToolContext();
+
+		const deep = await tool.execute({ query: "asyncio internals" }, context);
+		await tool.execute({ query: "python version", model: "gpt-5-mini" }, context);
+
+		expect(deep).toStartWith("> Dropped 1 source outside the allowed domains.");
+		expect(deep).not.toContain("example.com");
+
+		const toolOf = (call: number) => {
+			const [, init] = fetchMock.mock.calls[call] ?? [];
+			return (JSON.parse(typeof init?.body === "string" ? init.body : "{}") as { tools: unknown[] }).tools[0];
+		};
+		expect(toolOf(0)).toEqual({
+			type: "web_search",
+			search_context_size: "high",
+			filters: { allowed_domains: ["docs.python.org"] },
+			user_location: { type: "approximate", country: "DE", region: "Bavaria" },
+		});
+		expect(toolOf(1)).toEqual({
+			type: "web_search",
+			search_context_size: "low",
+			filters: { allowed_domains: ["python.org"] },
+			user_location: { type: "approximate", country: "DE", region: "Bavaria", city: "Munich" },
+		});
+	});
+
+	it("rejects invalid location arguments", async () => {
+		const { tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+			},
+		} as Config);
+		const context = createToolContext();
+
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", country: "Germany" }, context),
+			"The 'country' parameter must be a two-letter ISO 3166-1 country code, e.g. 'DE'."
+		);
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", timezone: "Mars/Olympus" }, context),
+			"The 'timezone' parameter must be an IANA time zone, e.g. 'Europe/Berlin'."
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("rejects per-call domain entries that are not domains", async () => {
+		const { tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+			},
+		} as Config);
+		const context = createToolContext();
+
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", include_domains: ["not a domain", "docs"] }, context),
+			"The 'include_domains' parameter must list domains such as 'example.com'; not a domain: 'not a domain', 'docs'."
+		);
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", exclude_domains: ["example.com", "http://"] }, context),
+			"The 'exclude_domains' parameter must list domains such as 'example.com'; not a domain: 'http://'."
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("rejects invalid or conflicting date arguments", async () => {
+		const { tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+			},
+		} as Config);
+		const context = createToolContext();
+
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", recency: "week", since: "2026-01-01" }, context),
+			"Use either 'recency' or 'since'/'until', not both."
+		);
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", since: "2026-02-30" }, context),
+			"The 'since' parameter must be a date in YYYY-MM-DD format."
+		);
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", since: "2026-03-01", until: "2026-01-01" }, context),
+			"The 'since' date must not be after the 'until' date."
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("keeps the sources include when more OpenAI include entries are configured", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Answer")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						include: ["reasoning.encrypted_content", "web_search_call.action.sources", " "],
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		const context = createToolContext();
+
+		await tool.execute({ query: "sample" }, context);
+
+		const [, init] = fetchMock.mock.calls[0] ?? [];
+		const parsed = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as Record<string, unknown>;
+		expect(parsed.include).toEqual(["web_search_call.action.sources", "reasoning.encrypted_content"]);
+	});
+
+	it("sends Azure OpenAI requests to the resource endpoint with the deployment name", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Azure result body")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				azure: {
+					options: {
+						resourceName: "contoso",
+						reasoningEffort: "low",
+						websearch_cited: { model: "gpt-5", deployment: "gpt5-search", apiVersion: "2025-05-01-preview" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "azure", { type: "api", key: "test-azure-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "azure search" }, context);
+
+		expect(result).toContain("Azure result body");
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://contoso.openai.azure.com/openai/responses?api-version=2025-05-01-preview");
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers["api-key"]).toBe("test-azure-key");
+		expect(headers.Authorization).toBeUndefined();
+		const parsed = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as Record<string, unknown>;
+		expect(parsed.model).toBe("gpt5-search");
+		expect(parsed.tools).toEqual([{ type: "web_search" }]);
+		expect(parsed.reasoning).toEqual({ effort: "low" });
+	});
+
+	it("sends Entra ID tokens to Azure OpenAI as bearer auth", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Azure result body")));
+		const token = "eyJhbGciOiJSUzI1NiJ9.eyJhdWQiOiJjb2duaXRpdmVzZXJ2aWNlcyJ9.signature";
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				azure: {
+					options: {
+						websearch_cited: { model: "gpt-5", endpoint: "https://contoso.openai.azure.com/openai/" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "azure", { type: "api", key: token });
+		const context = createToolContext();
+
+		await tool.execute({ query: "azure search" }, context);
+
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://contoso.openai.azure.com/openai/responses?api-version=2025-04-01-preview");
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers.Authorization).toBe(`Bearer ${token}`);
+		expect(headers["api-key"]).toBeUndefined();
+	});
+
+	it("signs a service-account JWT and grounds Vertex AI requests with googleSearch", async () => {
+		const dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-vertex-"));
+		const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+		const credentials = path.join(dir, "service-account.json");
+		await writeFile(
+			credentials,
+			JSON.stringify({
+				type: "service_account",
+				project_id: "sa-project",
+				private_key_id: "key-1",
+				private_key: privateKey.export({ type: "pkcs8", format: "pem" }),
+				client_email: "search@sa-project.iam.gserviceaccount.com",
+				token_uri: "https://oauth2.googleapis.com/token",
+			})
+		);
+		fetchMock
+			.mockResolvedValueOnce(createFetchResponse({ access_token: "vertex-access", expires_in: 3600 }))
+			.mockResolvedValueOnce(
+				createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Vertex answer" }] } }))
+			);
+
+		try {
+			const { tool } = await createEnv({
+				provider: {
+					"google-vertex": {
+						options: {
+							project: "my-project",
+							location: "europe-west4",
+							websearch_cited: { model: "gemini-2.5-flash", credentials },
+						},
+					},
+				},
+			} as Config);
+
+			const result = await tool.execute({ query: "vertex grounding" }, createToolContext());
+
+			expect(result).toBe("Vertex answer");
+			const [tokenUrl, tokenInit] = fetchMock.mock.calls[0] ?? [];
+			expect(tokenUrl).toBe("https://oauth2.googleapis.com/token");
+			const form = new URLSearchParams(String(tokenInit?.body));
+			expect(form.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:jwt-bearer");
+			const [header, claims, signature] = (form.get("assertion") ?? "").split(".");
+			expect(
+				createVerify("RSA-SHA256")
+					.update(`${header}.${claims}`)
+					.verify(publicKey, signature ?? "", "base64url")
+			).toBe(true);
+			expect(JSON.parse(Buffer.from(claims ?? "", "base64url").toString("utf8"))).toMatchObject({
+				iss: "search@sa-project.iam.gserviceaccount.com",
+				scope: "https://www.googleapis.com/auth/cloud-platform",
+				aud: "https://oauth2.googleapis.com/token",
+			});
+
+			const [url, init] = fetchMock.mock.calls[1] ?? [];
+			expect(url).toBe(
+				"https://europe-west4-aiplatform.googleapis.com/v1/projects/my-project/locations/europe-west4/publishers/google/models/gemini-2.5-flash:generateContent"
+			);
+			expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer vertex-access");
+			expect(JSON.parse(String(init?.body)).tools).toEqual([{ googleSearch: {} }]);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("sends Vertex AI searches to a configured baseURL with the configured headers", async () => {
+		const dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-vertex-"));
+		const { privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+		const credentials = path.join(dir, "service-account.json");
+		await writeFile(
+			credentials,
+			JSON.stringify({
+				type: "service_account",
+				project_id: "sa-project",
+				private_key: privateKey.export({ type: "pkcs8", format: "pem" }),
+				client_email: "gateway@sa-project.iam.gserviceaccount.com",
+			})
+		);
+		fetchMock
+			.mockResolvedValueOnce(createFetchResponse({ access_token: "vertex-access", expires_in: 3600 }))
+			.mockResolvedValueOnce(
+				createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Gateway answer" }] } }))
+			);
+
+		try {
+			const { tool } = await createEnv({
+				provider: {
+					"google-vertex": {
+						options: {
+							baseURL: "https://gateway.example.test/vertex/",
+							headers: { "cf-aig-authorization": "Bearer gateway-token" },
+							websearch_cited: { model: "gemini-2.5-flash", credentials },
+						},
+					},
+				},
+			} as Config);
+
+			expect(await tool.execute({ query: "vertex gateway" }, createToolContext())).toBe("Gateway answer");
+
+			const [tokenUrl, tokenInit] = fetchMock.mock.calls[0] ?? [];
+			expect(tokenUrl).toBe("https://oauth2.googleapis.com/token");
+			expect(new Headers(tokenInit?.headers).get("cf-aig-authorization")).toBeNull();
+			const [url, init] = fetchMock.mock.calls[1] ?? [];
+			expect(url).toBe("https://gateway.example.test/vertex/models/gemini-2.5-flash:generateContent");
+			const headers = init?.headers as Record<string, string>;
+			expect(headers["cf-aig-authorization"]).toBe("Bearer gateway-token");
+			expect(headers.authorization).toBe("Bearer vertex-access");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("uses the OpenRouter responses endpoint when configured and auth is present", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenRouterResponseBody("Search result body")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openrouter: {
+					options: {
+						websearch_cited: { model: "openrouter/auto" },
+					},
+				},
+			},
+		} as Config);
+
+		await invokeAuthLoader(hooks, "openrouter", {
+			type: "api",
+			key: "test-openrouter-key",
+		});
+
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "openrouter web search" }, context);
+
+		expect(result).toContain("Search result body");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(typeof url === "string" ? url : "").toContain("https://openrouter.ai/api/v1/responses");
+
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers.Authorization).toBe("Bearer test-openrouter-key");
+
+		const bodyText = typeof init?.body === "string" ? init.body : "";
+		const parsed = JSON.parse(bodyText) as Record<string, unknown>;
+		expect(parsed.model).toBe("openrouter/auto");
+		expect(parsed.store).toBe(false);
+		expect(parsed.stream).toBe(false);
+
+		const plugins = parsed.plugins;
+		expect(Array.isArray(plugins)).toBe(true);
+		const plugin0 =
+			Array.isArray(plugins) && plugins[0] && typeof plugins[0] === "object"
+				? (plugins[0] as Record<string, unknown>)
+				: undefined;
+		expect(plugin0?.id).toBe("web");
+
+		const searchPromptValue = plugin0?.search_prompt;
+		expect(typeof searchPromptValue === "string" ? searchPromptValue : "").toContain(
+			'perform web search on "openrouter web search"'
+		);
+	});
+
+	it("passes OpenRouter web plugin options, prompt template and routing preferences", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenRouterResponseBody("Search result body")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openrouter: {
+					options: {
+						websearch_cited: {
+							model: "openai/gpt-5.2",
+							engine: "native",
+							maxResults: 3,
+							searchPrompt: "Results for {query}. Cite them as markdown links.",
+							routing: { order: ["openai", 42], allowFallbacks: false, sort: "fastest" },
+						},
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openrouter", { type: "api", key: "test-openrouter-key" });
+		const context = createToolContext();
+
+		await tool.execute({ query: "bun release", include_domains: ["bun.sh"] }, context);
+
+		const [, init] = fetchMock.mock.calls[0] ?? [];
+		const parsed = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as Record<string, unknown>;
+		expect(parsed.plugins).toEqual([
+			{
+				id: "web",
+				search_prompt: "Results for bun release site:bun.sh. Cite them as markdown links.",
+				engine: "native",
+				max_results: 3,
+			},
+		]);
+		expect(parsed.provider).toEqual({ order: ["openai"], allow_fallbacks: false });
+		expect(parsed.input).toContain('perform web search on "bun release site:bun.sh"');
+	});
+
+	it("inserts OpenRouter citation markers and de-duplicates annotated URLs", async () => {
+		const text = "Grok 4 was released in July. It supports tools. Pricing is per token.";
+		const first = "Grok 4 was released in July.";
+		const second = "It supports tools.";
+		const secondStart = text.indexOf(second);
+		const third = "Pricing is per token.";
+		const thirdStart = text.indexOf(third);
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				output: [
+					{
+						type: "message",
+						role: "assistant",
+						content: [
+							{
+								type: "output_text",
+								text,
+								annotations: [
+									{
+										type: "url_citation",
+										url: "https://x.ai/news/grok-4",
+										title: "Grok 4",
+										start_index: 0,
+										end_index: first.length,
+									},
+									{
+										type: "url_citation",
+										url: "https://docs.x.ai/docs/models",
+										title: "Models",
+										start_index: secondStart,
+										end_index: secondStart + second.length,
+									},
+									{
+										type: "url_citation",
+										url: "https://x.ai/news/grok-4",
+										title: "Grok 4",
+										start_index: thirdStart,
+										end_index: thirdStart + third.length,
+									},
+								],
+							},
+						],
+					},
+				],
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openrouter: {
+					options: {
+						websearch_cited: { model: "x-ai/grok-4.1-fast" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openrouter", { type: "api", key: "test-openrouter-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "grok 4" }, context);
+
+		expect(result).toBe(
+			"Grok 4 was released in July.[1] It supports tools.[2] Pricing is per token.[1]\n\nSources:\n[1] Grok 4 (https://x.ai/news/grok-4)\n[2] Models (https://docs.x.ai/docs/models)"
+		);
+	});
+
+	it("falls back to OpenRouter model text when no annotations exist", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				output: [
+					{
+						type: "message",
+						role: "assistant",
+						content: [{ type: "output_text", text: "Answer from [example.com](https://example.com)." }],
+					},
+				],
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openrouter: {
+					options: {
+						websearch_cited: { model: "openrouter/auto" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openrouter", { type: "api", key: "test-openrouter-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "fallback" }, context);
+
+		expect(result).toBe("Answer from [example.com](https://example.com).");
+	});
+
+	it("builds Anthropic citations from web search result locations", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				content: [
+					{ type: "server_tool_use", id: "srvtoolu_1", name: "web_search", input: { query: "bun release" } },
+					{
+						type: "web_search_tool_result",
+						tool_use_id: "srvtoolu_1",
+						content: [
+							{ type: "web_search_result", url: "https://bun.sh/blog", title: "Bun Blog" },
+							{ type: "web_search_result", url: "https://github.com/oven-sh/bun", title: "oven-sh/bun" },
+						],
+					},
+					{ type: "text", text: "Here is what I found. " },
+					{
+						type: "text",
+						text: "Bun 1.2 ships S3 support.",
+						citations: [
+							{
+								type: "web_search_result_location",
+								url: "https://bun.sh/blog",
+								title: "Bun Blog",
+								cited_text: "Bun 1.2 adds a built-in S3 client",
+							},
+						],
+					},
+				],
+				usage: { input_tokens: 120, output_tokens: 30 },
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				anthropic: {
+					options: {
+						websearch_cited: { model: "claude-sonnet-4-5" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "anthropic", { type: "api", key: "test-anthropic-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "bun release" }, context);
+
+		expect(result).toBe(
+			"Here is what I found. Bun 1.2 ships S3 support.[1]\n\nSources:\n[1] Bun Blog (https://bun.sh/blog)\n[2] oven-sh/bun (https://github.com/oven-sh/bun)"
+		);
+
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://api.anthropic.com/v1/messages");
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers["x-api-key"]).toBe("test-anthropic-key");
+		expect(headers["anthropic-version"]).toBe("2023-06-01");
+
+		const parsed = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as Record<string, unknown>;
+		expect(parsed.model).toBe("claude-sonnet-4-5");
+		expect(parsed.tools).toEqual([{ type: "web_search_20250305", name: "web_search" }]);
+	});
+
+	it("rejects Anthropic OAuth logins and fails over to the next provider", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Gemini answer" }] } }))
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				anthropic: {
+					options: {
+						websearch_cited: { model: "claude-sonnet-4-5" },
+					},
+				},
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "anthropic", {
+			type: "oauth",
+			access: "anthropic-access",
+			refresh: "anthropic-refresh",
+			expires: Date.now() + 60_000,
+		});
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "google-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "oauth search" }, context);
+
+		expect(result).toContain("Gemini answer");
+		expect(result).toContain("after failover from anthropic");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(String(fetchMock.mock.calls[0]?.[0])).not.toContain("anthropic.com");
+		await expectThrowMessage(
+			() => tool.execute({ query: "oauth search", provider: "anthropic" }, context),
+			"Anthropic web search requires an API key"
+		);
+	});
+
+	it("maps Perplexity citations and search results onto Sources", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				choices: [
+					{
+						message: {
+							role: "assistant",
+							content:
+								"<think>Checking release notes.</think>\nBun 1.2 ships S3 support[1][2]. Node 22 is LTS[3] and arrays look like a[0].",
+						},
+					},
+				],
+				citations: [
+					"https://bun.sh/blog",
+					"https://github.com/oven-sh/bun",
+					"https://nodejs.org/en/about/previous-releases",
+				],
+				search_results: [
+					{ title: "Bun Blog", url: "https://bun.sh/blog", date: "2025-01-22" },
+					{ title: "Node.js Releases", url: "https://nodejs.org/en/about/previous-releases", date: null },
+				],
+				usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 },
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				perplexity: {
+					options: {
+						websearch_cited: { model: "sonar-pro" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "perplexity", { type: "api", key: "test-perplexity-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "bun and node" }, context);
+
+		expect(result).toBe(
+			"Bun 1.2 ships S3 support[1][2]. Node 22 is LTS[3] and arrays look like a[0].\n\nSources:\n[1] Bun Blog (https://bun.sh/blog) - 2025-01-22\n[2] Untitled (https://github.com/oven-sh/bun)\n[3] Node.js Releases (https://nodejs.org/en/about/previous-releases)"
+		);
+
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://api.perplexity.ai/chat/completions");
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers.Authorization).toBe("Bearer test-perplexity-key");
+		const parsed = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as Record<string, unknown>;
+		expect(parsed.model).toBe("sonar-pro");
+		expect(JSON.stringify(parsed.messages)).not.toContain("perform web search");
+	});
+
+	it("passes a date range to Perplexity natively and echoes it above the answer", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				choices: [{ message: { role: "assistant", content: "CVE-2026-1234 was patched in March[1]." } }],
+				citations: ["https://nvd.nist.gov/vuln/detail/CVE-2026-1234"],
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				perplexity: {
+					options: {
+						websearch_cited: { model: "sonar" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "perplexity", { type: "api", key: "test-perplexity-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "CVE-2026-1234", since: "2026-01-01", until: "2026-03-31" }, context);
+
+		expect(result).toBe(
+			"> Limited to results published from 2026-01-01 to 2026-03-31.\n\nCVE-2026-1234 was patched in March[1].\n\nSources:\n[1] Untitled (https://nvd.nist.gov/vuln/detail/CVE-2026-1234)"
+		);
+		const [, init] = fetchMock.mock.calls[0] ?? [];
+		const parsed = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as Record<string, unknown>;
+		expect(parsed.search_after_date_filter).toBe("1/1/2026");
+		expect(parsed.search_before_date_filter).toBe("3/31/2026");
+		expect(parsed.search_recency_filter).toBeUndefined();
+	});
+
+	it("passes xAI live search parameters and lists citations as Sources", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				choices: [{ message: { role: "assistant", content: "Grok 4 launched in July." } }],
+				citations: ["https://x.ai/news/grok-4", "https://x.com/xai/status/1"],
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				xai: {
+					options: {
+						websearch_cited: {
+							model: "grok-4",
+							search: {
+								sources: ["web", "x", "rss"],
+								fromDate: "2025-07-01",
+								toDate: "not-a-date",
+								maxSearchResults: 5,
+							},
+						},
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "xai", { type: "api", key: "test-xai-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "grok 4 launch" }, context);
+
+		expect(result).toBe(
+			"Grok 4 launched in July.\n\nSources:\n[1] Untitled (https://x.ai/news/grok-4)\n[2] Untitled (https://x.com/xai/status/1)"
+		);
+
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://api.x.ai/v1/chat/completions");
+		const headers = (init?.headers ?? {}) as Record<string, string>;
+		expect(headers.Authorization).toBe("Bearer test-xai-key");
+		const parsed = JSON.parse(typeof init?.body === "string" ? init.body : "{}") as Record<string, unknown>;
+		expect(parsed.search_parameters).toEqual({
+			mode: "on",
+			return_citations: true,
+			sources: [{ type: "web" }, { type: "x" }],
+			from_date: "2025-07-01",
+			max_search_results: 5,
+		});
+	});
+
+	it("summarizes Tavily results with the configured model and owns the Sources list", async () => {
+		fetchMock
+			.mockResolvedValueOnce(
+				createFetchResponse({
+					results: [
+						{
+							title: "Bun Blog",
+							url: "https://bun.sh/blog",
+							content: "Bun 1.2 adds S3.",
+							published_date: "2025-01-22",
+						},
+						{ title: "Node.js", url: "https://nodejs.org", content: "Node 22 is LTS." },
+						{ title: "Deno", url: "https://deno.com", content: "Deno 2 is out." },
+					],
+				})
+			)
+			.mockResolvedValueOnce(
+				createFetchResponse({
+					choices: [{ message: { role: "assistant", content: "Bun added S3 [1], Node 22 is LTS [2][7]." } }],
+				})
+			);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				tavily: {
+					options: {
+						websearch_cited: {
+							model: "gpt-4.1-mini",
+							maxResults: 3,
+							summarizer: { baseURL: "https://llm.example.test/v1/", apiKey: "summarizer-key" },
+						},
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "tavily", { type: "api", key: "test-tavily-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "js runtimes" }, context);
+
+		expect(result).toBe(
+			"Bun added S3 [1], Node 22 is LTS [2].\n\nSources:\n[1] Bun Blog (https://bun.sh/blog) - 2025-01-22\n[2] Node.js (https://nodejs.org)\n[3] Deno (https://deno.com)"
+		);
+
+		const [searchUrl, searchInit] = fetchMock.mock.calls[0] ?? [];
+		expect(searchUrl).toBe("https://api.tavily.com/search");
+		expect((searchInit?.headers as Record<string, string>).Authorization).toBe("Bearer test-tavily-key");
+		expect(JSON.parse(String(searchInit?.body))).toEqual({ query: "js runtimes", max_results: 3 });
+
+		const [summaryUrl, summaryInit] = fetchMock.mock.calls[1] ?? [];
+		expect(summaryUrl).toBe("https://llm.example.test/v1/chat/completions");
+		expect((summaryInit?.headers as Record<string, string>).Authorization).toBe("Bearer summarizer-key");
+		const summaryBody = JSON.parse(String(summaryInit?.body)) as { model: string; messages: { content: string }[] };
+		expect(summaryBody.model).toBe("gpt-4.1-mini");
+		expect(summaryBody.messages[1]?.content).toContain("[3] Deno\nURL: https://deno.com\nDeno 2 is out.");
+	});
+
+	it("lists Brave results as cited snippets when the summarizer is turned off", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				web: {
+					results: [
+						{ title: "Bun", url: "https://bun.sh", description: "A <strong>fast</strong> runtime" },
+						{ title: "Node.js", url: "https://nodejs.org", description: "JavaScript runtime", page_age: "2025-02-01" },
+					],
+				},
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				brave: {
+					options: {
+						websearch_cited: { model: "none", summarizer: false },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "brave", { type: "api", key: "test-brave-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "js runtime" }, context);
+
+		expect(result).toBe(
+			"- Bun: A fast runtime[1]\n- Node.js: JavaScript runtime[2]\n\nSources:\n[1] Bun (https://bun.sh)\n[2] Node.js (https://nodejs.org) - 2025-02-01"
+		);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const [url, init] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://api.search.brave.com/res/v1/web/search?q=js+runtime&count=8");
+		expect((init?.headers as Record<string, string>)["X-Subscription-Token"]).toBe("test-brave-key");
+	});
+
+	it("rejects an Exa search without a valid summarizer", async () => {
+		const { hooks, tool } = await createEnv({
+			provider: {
+				exa: {
+					options: {
+						websearch_cited: { model: "gpt-4.1-mini", summarizer: { apiKey: "summarizer-key" } },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "exa", { type: "api", key: "test-exa-key" });
+		const context = createToolContext();
+
+		await expectThrowMessage(
+			() => tool.execute({ query: "js runtime" }, context),
+			'Missing or invalid websearch_cited summarizer for provider "exa"'
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("skips a search API without a summarizer and uses the next configured provider", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Gemini answer" }] } }))
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				brave: { options: { websearch_cited: { model: "gpt-4.1-mini" } } },
+				google: { options: { websearch_cited: { model: "gemini-2.5-flash" } } },
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "brave", { type: "api", key: "test-brave-key" });
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "google-key" });
+
+		expect(await tool.execute({ query: "js runtime" }, createToolContext())).toBe("Gemini answer");
+		expect(String(fetchMock.mock.calls[0]?.[0])).not.toContain("search.brave.com");
+	});
+
+	it("lets the summarizer reuse the API key OpenCode stores for another provider", async () => {
+		fetchMock
+			.mockResolvedValueOnce(
+				createFetchResponse({ results: [{ title: "Bun", url: "https://bun.sh", content: "A fast runtime." }] })
+			)
+			.mockResolvedValueOnce(createFetchResponse({ choices: [{ message: { content: "Bun is fast [1]." } }] }));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				tavily: {
+					options: {
+						websearch_cited: {
+							model: "gpt-4.1-mini",
+							summarizer: { baseURL: "https://api.openai.com/v1", provider: "openai" },
+						},
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "tavily", { type: "api", key: "test-tavily-key" });
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "stored-openai-key" });
+
+		await tool.execute({ query: "bun" }, createToolContext());
+
+		const [summaryUrl, summaryInit] = fetchMock.mock.calls[1] ?? [];
+		expect(summaryUrl).toBe("https://api.openai.com/v1/chat/completions");
+		expect((summaryInit?.headers as Record<string, string>).Authorization).toBe("Bearer stored-openai-key");
+	});
+
+	it("adds site operators to Brave queries and filters results outside the allowed domains", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({
+				web: {
+					results: [
+						{ title: "Bun docs", url: "https://docs.bun.sh", description: "Runtime docs" },
+						{ title: "Bun mirror", url: "https://bun-mirror.example.com", description: "Copied docs" },
+						{ title: "Bun blog", url: "https://bun.sh/blog", description: "Release notes" },
+					],
+				},
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				brave: {
+					options: {
+						websearch_cited: { model: "none", summarizer: false, includeDomains: "example.com" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "brave", { type: "api", key: "test-brave-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute(
+			{ query: "bun", include_domains: ["bun.sh"], exclude_domains: ["docs.bun.sh"] },
+			context
+		);
+
+		expect(result).toBe("- Bun blog: Release notes[1]\n\nSources:\n[1] Bun blog (https://bun.sh/blog)");
+		const [url] = fetchMock.mock.calls[0] ?? [];
+		expect(new URL(String(url)).searchParams.get("q")).toBe("bun site:bun.sh -site:docs.bun.sh");
+	});
+
+	it("searches a local SearXNG stand-in and summarizes with a local OpenAI-compatible endpoint", async () => {
+		fetchMock.mockRestore();
+		const requests: string[] = [];
+		const server = Bun.serve({
+			port: 0,
+			async fetch(request) {
+				const url = new URL(request.url);
+				requests.push(`${request.method} ${url.pathname}${url.search}`);
+				if (url.pathname === "/search") {
+					return Response.json({
+						results: [
+							{ title: "SearXNG", url: "https://docs.searxng.org", content: "A metasearch engine." },
+							{
+								title: "Ollama",
+								url: "https://ollama.com",
+								content: "Run models locally.",
+								publishedDate: "2025-03-01T00:00:00",
+							},
+						],
+					});
+				}
+				const body = (await request.json()) as { model: string };
+				return Response.json({
+					choices: [
+						{ message: { role: "assistant", content: `${body.model} says SearXNG is a metasearch engine [1].` } },
+					],
+				});
+			},
+		});
+
+		try {
+			const baseURL = `http://localhost:${server.port}`;
+			const { tool } = await createEnv({
+				provider: {
+					searxng: {
+						options: {
+							websearch_cited: {
+								model: "llama3.2",
+								baseURL: `${baseURL}/`,
+								summarizer: { baseURL: `${baseURL}/v1` },
+							},
+						},
+					},
+				},
+			} as Config);
+			const context = createToolContext();
+
+			const result = await tool.execute({ query: "local search" }, context);
+
+			expect(result).toBe(
+				"llama3.2 says SearXNG is a metasearch engine [1].\n\nSources:\n[1] SearXNG (https://docs.searxng.org)\n[2] Ollama (https://ollama.com) - 2025-03-01"
+			);
+			expect(requests).toEqual(["GET /search?q=local+search&format=json", "POST /v1/chat/completions"]);
+		} finally {
+			await server.stop(true);
+		}
+	});
+
+	it("selects the first configured provider in order", async () => {
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Search result body")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-4o-search-preview" },
+					},
+				},
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash" },
+					},
+				},
+			},
+		} as Config);
+
+		await invokeAuthLoader(hooks, "openai", {
+			type: "oauth",
+			access: "test-access-token",
+			refresh: "test-refresh-token",
+			expires: Date.now() + 60_000,
+		});
+
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "openai web search" }, context);
+
+		expect(result).toContain("Search result body");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const [url] = fetchMock.mock.calls[0] ?? [];
+		expect(typeof url === "string" ? url : "").toContain("/codex/responses");
+	});
+
+	it("searches with the provider and model chosen for the call", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Pro answer" }] } }))
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5-mini" },
+					},
+				},
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "test-google-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "hard question", provider: "google", model: "gemini-2.5-pro" }, context);
+
+		expect(result).toBe("Pro answer");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const [url] = fetchMock.mock.calls[0] ?? [];
+		expect(url).toBe("https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:generateContent");
+	});
+
+	it("lists the configured providers when the requested provider is unavailable", async () => {
+		const { tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5-mini" },
+					},
+				},
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash" },
+					},
+				},
+			},
+		} as Config);
+		const context = createToolContext();
+
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", provider: "anthropic" }, context),
+			'Provider "anthropic" is not configured for websearch_cited. Available providers: openai (gpt-5-mini), google (gemini-2.5-flash).'
+		);
+		await expectThrowMessage(
+			() => tool.execute({ query: "sample", provider: "bing" }, context),
+			'Provider "bing" is not supported for websearch_cited. Available providers: openai (gpt-5-mini), google (gemini-2.5-flash).'
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("fails over to the next configured provider on rate limits", async () => {
+		fetchMock
+			.mockResolvedValueOnce(
+				createFetchResponse(
+					{ error: { message: "quota exceeded" } },
+					{ ok: false, status: 429, statusText: "Too Many Requests" }
+				)
+			)
+			.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Failover body")));
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", retry: { maxAttempts: 1 } },
+					},
+				},
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "failover" }, context);
+
+		expect(result).toBe("> Answered by openai (gpt-5.2) after failover from google (status 429).\n\nFailover body");
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("skips providers without auth and reports every failure when all fail", async () => {
+		fetchMock.mockResolvedValue(
+			createFetchResponse(
+				{ error: { message: "upstream down" } },
+				{ ok: false, status: 503, statusText: "Unavailable" }
+			)
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+				openrouter: {
+					options: {
+						websearch_cited: { model: "openrouter/auto", retry: { maxAttempts: 1 } },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "openrouter", { type: "api", key: "test-openrouter-key" });
+		const context = createToolContext();
+
+		await expectThrowMessage(
+			() => tool.execute({ query: "failover" }, context),
+			"All websearch_cited providers failed"
+		);
+		await expectThrowMessage(
+			() => tool.execute({ query: "failover" }, context),
+			'openai: Missing auth for provider "openai"'
+		);
+		await expectThrowMessage(() => tool.execute({ query: "failover" }, context), "openrouter: status=503");
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it("does not fail over on non-retryable provider errors", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse({ error: { message: "bad request" } }, { ok: false, status: 400, statusText: "Bad Request" })
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash" },
+					},
+				},
+				openai: {
+					options: {
+						websearch_cited: { model: "gpt-5.2" },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		await invokeAuthLoader(hooks, "openai", { type: "api", key: "test-api-key" });
+		const context = createToolContext();
+
+		await expectThrowMessage(() => tool.execute({ query: "failover" }, context), "bad request");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("retries rate-limited requests after Retry-After", async () => {
+		fetchMock
+			.mockResolvedValueOnce(
+				createFetchResponse(
+					{ error: { message: "slow down" } },
+					{ ok: false, status: 429, statusText: "Too Many Requests", headers: { "Retry-After": "0" } }
+				)
+			)
+			.mockResolvedValueOnce(
+				createFetchResponse(
+					createResponse({
+						content: { role: "model", parts: [{ text: "Retried response" }] },
+					})
+				)
+			);
+
+		const { hooks, tool } = await createEnv(WEBSEARCH_CONFIG);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		const context = createToolContext();
+
+		const result = await tool.execute({ query: "retry query" }, context);
+
+		expect(result).toBe("Retried response");
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("stops retrying as soon as the call is aborted", async () => {
+		fetchMock.mockResolvedValue(
+			createFetchResponse(
+				{ error: { message: "unavailable" } },
+				{ ok: false, status: 503, statusText: "Service Unavailable", headers: { "Retry-After": "30" } }
+			)
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", retry: { maxAttempts: 5 } },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		const controller = new AbortController();
+		const context = { ...createToolContext(), abort: controller.signal };
+
+		const pending = tool.execute({ query: "abort query" }, context);
+		setTimeout(() => controller.abort(new Error("aborted by user")), 10);
+
+		await expectThrowMessage(() => pending, "aborted by user");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("gives up after the configured number of attempts", async () => {
+		fetchMock.mockResolvedValue(
+			createFetchResponse(
+				{ error: { message: "still overloaded" } },
+				{ ok: false, status: 503, statusText: "Service Unavailable" }
+			)
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: {
+							model: "gemini-2.5-flash",
+							retry: { maxAttempts: 2, initialDelayMs: 0 },
+						},
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		const context = createToolContext();
+
+		await expectThrowMessage(() => tool.execute({ query: "overloaded" }, context), "still overloaded");
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("queues searches beyond the configured concurrency", async () => {
+		let releaseFirst: (response: Response) => void = () => {};
+		fetchMock
+			.mockReturnValueOnce(
+				new Promise<Response>((resolve) => {
+					releaseFirst = resolve;
+				})
+			)
+			.mockResolvedValueOnce(
+				createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Second" }] } }))
+			);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", concurrency: 1 },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+
+		const first = tool.execute({ query: "first" }, createToolContext());
+		const second = tool.execute({ query: "second" }, createToolContext());
+		await Bun.sleep(5);
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+
+		releaseFirst(createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "First" }] } })));
+
+		expect(await first).toBe("First");
+		expect(await second).toBe("Second");
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("lets a search through when fewer than one request per minute is allowed", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Slow lane" }] } }))
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", requestsPerMinute: 0.5 },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+
+		expect(await tool.execute({ query: "slow" }, createToolContext())).toBe("Slow lane");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("drops queued searches when they are aborted", async () => {
+		let releaseFirst: (response: Response) => void = () => {};
+		fetchMock.mockReturnValueOnce(
+			new Promise<Response>((resolve) => {
+				releaseFirst = resolve;
+			})
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", concurrency: 1 },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+
+		const first = tool.execute({ query: "first" }, createToolContext());
+		const controller = new AbortController();
+		const queued = tool.execute({ query: "queued" }, { ...createToolContext(), abort: controller.signal });
+		controller.abort(new Error("queued call aborted"));
+
+		await expectThrowMessage(() => queued, "queued call aborted");
+
+		releaseFirst(createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "First" }] } })));
+		expect(await first).toBe("First");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("serves repeated queries from the cache when enabled", async () => {
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Fresh answer" }] } }))
+		);
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", cache: { ttlMs: 60_000, maxEntries: 10 } },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		const context = createToolContext();
+
+		const first = await tool.execute({ query: "Cached  Query" }, context);
+		const second = await tool.execute({ query: "cached query" }, context);
+
+		expect(first).toBe("Fresh answer");
+		expect(second).toMatch(/^> Served from cache \(fetched .+\)\.\n\nFresh answer$/);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("evicts the least recently used cache entry", async () => {
+		for (const text of ["answer 1", "answer 2", "answer 3", "answer 4"]) {
+			fetchMock.mockResolvedValueOnce(
+				createFetchResponse(createResponse({ content: { role: "model", parts: [{ text }] } }))
+			);
+		}
+
+		const { hooks, tool } = await createEnv({
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", cache: { maxEntries: 2 } },
+					},
+				},
+			},
+		} as Config);
+		await invokeAuthLoader(hooks, "google", { type: "api", key: "stored-key" });
+		const context = createToolContext();
+
+		await tool.execute({ query: "one" }, context);
+		await tool.execute({ query: "two" }, context);
+		await tool.execute({ query: "one" }, context);
+		await tool.execute({ query: "three" }, context);
+		const one = await tool.execute({ query: "one" }, context);
+		const two = await tool.execute({ query: "two" }, context);
+
+		expect(one).toContain("Served from cache");
+		expect(two).toBe("answer 4");
+		expect(fetchMock).toHaveBeenCalledTimes(4);
+	});
+
+	it("shares the disk cache across plugin instances", async () => {
+		const dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-cache-"));
+		const config = {
+			provider: {
+				google: {
+					options: {
+						websearch_cited: { model: "gemini-2.5-flash", cache: { disk: { dir } } },
+					},
+				},
+			},
+		} as Config;
+		fetchMock.mockResolvedValueOnce(
+			createFetchResponse(createResponse({ content: { role: "model", parts: [{ text: "Persisted answer" }] } }))
+		);
+
+		try {
+			const first = await createEnv(config);
+			await invokeAuthLoader(first.hooks, "google", { type: "api", key: "stored-key" });
+			expect(await first.tool.execute({ query: "persisted" }, createToolContext())).toBe("Persisted answer");
+
+			const second = await createEnv(config);
+			await invokeAuthLoader(second.hooks, "google", { type: "api", key: "stored-key" });
+			const result = await second.tool.execute({ query: "persisted" }, createToolContext());
+
+			expect(result).toContain("Served from cache");
+			expect(result).toContain("Persisted answer");
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("keeps summarizer API keys out of the disk cache", async () => {
+		const dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-cache-"));
+		fetchMock
+			.mockResolvedValueOnce(
+				createFetchResponse({ results: [{ title: "Bun", url: "https://bun.sh", content: "A fast runtime." }] })
+			)
+			.mockResolvedValueOnce(createFetchResponse({ choices: [{ message: { content: "Bun is fast [1]." } }] }));
+
+		try {
+			const { hooks, tool } = await createEnv({
+				provider: {
+					tavily: {
+						options: {
+							websearch_cited: {
+								model: "gpt-4.1-mini",
+								summarizer: { baseURL: "https://llm.example.test/v1", apiKey: "sk-SECRET-123" },
+								cache: { disk: { dir } },
+							},
+						},
+					},
+				},
+			} as Config);
+			await invokeAuthLoader(hooks, "tavily", { type: "api", key: "test-tavily-key" });
+			await tool.execute({ query: "bun" }, createToolContext());
+
+			const names = await readdir(dir);
+			expect(names).toHaveLength(1);
+			const stored = await readFile(path.join(dir, names[0] ?? ""), "utf8");
+			expect(stored).toContain("Bun is fast");
+			expect(stored).not.toContain("sk-SECRET-123");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("records sanitized fixtures and replays them without network access", async () => {
+		const dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-fixtures-"));
+		const configFor = (mode: string) =>
+			({
+				provider: {
+					openai: {
+						options: {
+							websearch_cited: { model: "gpt-5.2", fixtures: { mode, dir } },
+						},
+					},
+				},
+			}) as Config;
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Recorded body")));
+
+		try {
+			const recorder = await createEnv(configFor("record"));
+			await invokeAuthLoader(recorder.hooks, "openai", { type: "api", key: "secret-api-key" });
+			expect(await recorder.tool.execute({ query: "fixture query" }, createToolContext())).toBe("Recorded body");
+
+			const files = await readdir(dir);
+			expect(files).toHaveLength(1);
+			const fixtureText = await readFile(path.join(dir, files[0] ?? ""), "utf8");
+			expect(fixtureText).not.toContain("secret-api-key");
+			expect(fixtureText).toContain("[REDACTED]");
+
+			const replayer = await createEnv(configFor("replay"));
+			await invokeAuthLoader(replayer.hooks, "openai", { type: "api", key: "another-key" });
+			expect(await replayer.tool.execute({ query: "fixture query" }, createToolContext())).toBe("Recorded body");
+			await expectThrowMessage(
+				() => replayer.tool.execute({ query: "unrecorded query" }, createToolContext()),
+				"No recorded fixture for POST https://api.openai.com/v1/responses"
+			);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("redacts configured gateway headers in recorded fixtures", async () => {
+		const dir = await mkdtemp(path.join(os.tmpdir(), "websearch-cited-fixtures-"));
+		fetchMock.mockResolvedValueOnce(createFetchResponse(createOpenAIResponseBody("Recorded body")));
+
+		try {
+			const { hooks, tool } = await createEnv({
+				provider: {
+					openai: {
+						options: {
+							headers: { "cf-aig-authorization": "Bearer GATEWAY-SECRET", "X-Tenant": "tenant-secret" },
+							websearch_cited: { model: "gpt-5.2", fixtures: { mode: "record", dir } },
+						},
+					},
+				},
+			} as Config);
+			await invokeAuthLoader(hooks, "openai", { type: "api", key: "secret-api-key" });
+			await tool.execute({ query: "fixture query" }, createToolContext());
+
+			const files = await readdir(dir);
+			const fixture = JSON.parse(await readFile(path.join(dir, files[0] ?? ""), "utf8")) as {
+				request: { headers: Record<string, string> };
+			};
+			expect(fixture.request.headers["cf-aig-authorization"]).toBe("[REDACTED]");
+			expect(fixture.request.headers["x-tenant"]).toBe("[REDACTED]");
+			expect(fixture.request.headers.authorization).toBe("[REDACTED]");
+			expect(JSON.stringify(fixture)).not.toContain("SECRET");
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("index exports are valid plugin init functions", async () => {
+		const mod = await importIndexModule();
+		const entries = Object.entries(mod);
+		expect(entries.length).toBeGreaterThan(0);
+		for (const [name, value] of entries) {
+			expect(name.trim()).not.toBe("");
+			expect(typeof value).toBe("function");
+		}
+	});
+
+	it("initializes all exports like opencode", async () => {
+		const mod = await importIndexModule();
+		const input = createPluginInput();
+		const hooks: unknown[] = [];
+		for (const [name, value] of Object.entries(mod)) {
+			if (typeof value !== "function") {
+				throw new Error(`Invalid plugin export "${name}"`);
+			}
+			hooks.push(await (value as Plugin)(input));
+		}
+		for (const hook of hooks) {
+			expect(hook && typeof hook === "object").toBe(true);
+		}
+	});
+});
+
+type CandidateInput = NonNullable<WebSearchGenerateContentResponse["candidates"]>[number];
+
+async function expectThrowMessage(fn: () => Promise<unknown>, match: string) {
+	try {
+		await fn();
+		throw new Error("Expected function to throw");
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		expect(message).toContain(match);
+	}
+}
+
+type Hooks = Awaited<ReturnType<Plugin>>;
+
+type Tool = {
+	execute: (args: unknown, context: unknown) => Promise<string>;
+};
+
+function isTool(value: unknown): value is Tool {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+	const execute = (value as Record<string, unknown>).execute;
+	return typeof execute === "function";
+}
+
+function createPluginInput(): PluginInput {
+	return {} as PluginInput;
+}
+
+async function importIndexModule(): Promise<Record<string, unknown>> {
+	importCounter += 1;
+	const mod = (await import(`./index?agent_test=${importCounter}`)) as unknown;
+	if (!mod || typeof mod !== "object") {
+		throw new Error("Invalid plugin module");
+	}
+	return mod as Record<string, unknown>;
+}
+
+async function createEnv(config?: Config): Promise<{ hooks: Hooks[]; tool: Tool }> {
+	const mod = await importIndexModule();
+	const input = createPluginInput();
+	const hooks: Hooks[] = [];
+
+	for (const [name, value] of Object.entries(mod)) {
+		if (typeof value !== "function") {
+			throw new Error(`Invalid plugin export "${name}"`);
+		}
+		hooks.push(await (value as Plugin)(input));
+	}
+
+	if (config) {
+		for (const hook of hooks) {
+			const configHook = (hook as Record<string, unknown>).config;
+			if (typeof configHook === "function") {
+				await (configHook as (c: Config) => Promise<unknown>)(config);
 			}
 		}
 	}
@@ -947,17 +2907,33 @@ function findTool(hooks: Hooks[], name: string): Tool | undefined {
 	return found;
 }
 
+function createWebsearchResult(overrides: Partial<WebsearchResult>): WebsearchResult {
+	return {
+		provider: "test",
+		model: "test-model",
+		query: "render query",
+		text: "",
+		citations: [],
+		sources: [],
+		...overrides,
+	};
+}
+
 function createResponse(candidate: CandidateInput): WebSearchGenerateContentResponse {
 	return {
 		candidates: [candidate],
 	};
 }
 
-function createFetchResponse(body: unknown, init?: Partial<Pick<Response, "ok" | "status" | "statusText">>): Response {
+function createFetchResponse(
+	body: unknown,
+	init?: Partial<Pick<Response, "ok" | "status" | "statusText">> & { headers?: Record<string, string> }
+): Response {
 	return {
 		ok: init?.ok ?? true,
 		status: init?.status ?? 200,
 		statusText: init?.statusText ?? "OK",
+		headers: new Headers(init?.headers),
 		json: () => Promise.resolve(body),
 		text: () => Promise.resolve(JSON.stringify(body)),
 	} as Response;